@@ -0,0 +1,146 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAclGenerator, generatePolicy, readAclGeneratorConfig } from '../src/acl-generator';
+import { decodePolicy, type PolicyApplyResult } from '../src/acl-policy';
+import type { HeadscalePolicy } from '../src/headscale-types';
+import { nodeIdentityTag } from '../src/node-events';
+
+const CONFIG = readAclGeneratorConfig(
+  {
+    roles: { edge: 'tag:edge', db: 'tag:db', broken: 'db' },
+    rules: [
+      { from: ['edge'], to: ['db'], ports: ['5432'] },
+      { from: ['unknown'], to: ['db'] },
+    ],
+    manual: {
+      groups: { 'group:ops': ['alice@'] },
+      tagOwners: { 'tag:db': ['group:ops'] },
+      acls: [{ action: 'accept', src: ['group:ops'], dst: ['*:*'] }],
+    },
+  },
+  ['meristem@'],
+)!;
+
+test('generator config keeps only tag-shaped role mappings', (): void => {
+  expect(CONFIG.roles).toEqual({ edge: 'tag:edge', db: 'tag:db' });
+  expect(CONFIG.owners).toEqual(['meristem@']);
+  expect(readAclGeneratorConfig({ rules: [] }, [])).toBe(null);
+});
+
+test('generated rules follow manual sections and never override them', (): void => {
+  const generated = generatePolicy(CONFIG, new Map([['edge-1', ['edge']]]), nodeIdentityTag);
+
+  expect(generated.sections.generated).toEqual({
+    tagOwners: { 'tag:edge': ['meristem@'], 'tag:meristem-edge-1': ['meristem@'] },
+    acls: [{ action: 'accept', src: ['tag:edge'], dst: ['tag:db:5432'] }],
+  });
+  expect(generated.conflicts).toEqual(['tag:db']);
+  expect(generated.ruleIssues).toEqual([{ rule: 1, unknownRoles: ['unknown'], dropped: true }]);
+  expect(generated.policy.tagOwners['tag:db']).toEqual(['group:ops']);
+  expect(generated.policy.acls).toEqual([
+    { action: 'accept', src: ['group:ops'], dst: ['*:*'] },
+    { action: 'accept', src: ['tag:edge'], dst: ['tag:db:5432'] },
+  ]);
+});
+
+test('registering a node persists its roles and regenerates the policy', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-aclgen-'));
+  const statePath = join(dir, 'acl-nodes.json');
+  const applied: HeadscalePolicy[] = [];
+  const apply = async (policy: HeadscalePolicy): Promise<PolicyApplyResult> => {
+    applied.push(policy);
+    return { dryRun: false, applied: true, version: applied.length, issues: [], diff: [] };
+  };
+
+  try {
+    const generator = createAclGenerator({ config: CONFIG, statePath, identityTag: nodeIdentityTag, apply });
+    await generator.registerNode('edge-1', ['edge', 'edge', 'unmapped']);
+
+    expect(generator.tagsForNode('edge-1')).toEqual(['tag:edge']);
+    expect(Object.keys(applied[0]?.tagOwners ?? {})).toEqual(['tag:db', 'tag:edge', 'tag:meristem-edge-1']);
+    expect(JSON.parse(await readFile(statePath, 'utf-8'))).toEqual({
+      nodes: { 'edge-1': ['edge', 'unmapped'] },
+      generated: {
+        tagOwners: { 'tag:edge': ['meristem@'], 'tag:meristem-edge-1': ['meristem@'] },
+        acls: [{ action: 'accept', src: ['tag:edge'], dst: ['tag:db:5432'] }],
+      },
+    });
+
+    const restarted = createAclGenerator({ config: CONFIG, statePath, identityTag: nodeIdentityTag, apply });
+    await restarted.regenerate();
+    expect(applied[1]).toEqual(applied[0]);
+
+    expect(await restarted.unregisterNode('missing')).toBe(null);
+    await restarted.unregisterNode('edge-1');
+    expect(Object.keys(applied[2]?.tagOwners ?? {})).toEqual(['tag:db', 'tag:edge']);
+    expect(JSON.parse(await readFile(statePath, 'utf-8')).nodes).toEqual({});
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('concurrent registrations on a fresh generator share one node map', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-aclgen-'));
+  const statePath = join(dir, 'acl-nodes.json');
+  const applied: HeadscalePolicy[] = [];
+  const apply = async (policy: HeadscalePolicy): Promise<PolicyApplyResult> => {
+    applied.push(policy);
+    return { dryRun: false, applied: true, version: applied.length, issues: [], diff: [] };
+  };
+
+  try {
+    const generator = createAclGenerator({ config: CONFIG, statePath, identityTag: nodeIdentityTag, apply });
+    await Promise.all([generator.registerNode('a', ['edge']), generator.registerNode('b', ['edge'])]);
+
+    expect((await generator.listNodeIds()).sort()).toEqual(['a', 'b']);
+    expect(Object.keys(applied.at(-1)?.tagOwners ?? {})).toEqual([
+      'tag:db',
+      'tag:edge',
+      'tag:meristem-a',
+      'tag:meristem-b',
+    ]);
+    expect(Object.keys(JSON.parse(await readFile(statePath, 'utf-8')).nodes)).toEqual(['a', 'b']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('without a manual section the live policy minus previously generated entries is kept', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-aclgen-'));
+  const statePath = join(dir, 'acl-nodes.json');
+  const config = { ...CONFIG, manual: null };
+  let live = decodePolicy({});
+  const apply = async (policy: HeadscalePolicy): Promise<PolicyApplyResult> => {
+    live = policy;
+    return { dryRun: false, applied: true, version: 1, issues: [], diff: [] };
+  };
+
+  try {
+    const generator = createAclGenerator({
+      config,
+      statePath,
+      identityTag: nodeIdentityTag,
+      apply,
+      current: async () => live,
+    });
+    await generator.registerNode('edge-1', ['edge']);
+
+    // 生成后经 network-acl-apply 追加的手写规则与标签
+    live = {
+      ...live,
+      tagOwners: { ...live.tagOwners, 'tag:ops': ['alice@'] },
+      acls: [{ action: 'accept', src: ['tag:ops'], dst: ['*:22'] }, ...live.acls],
+    };
+    await generator.unregisterNode('edge-1');
+
+    expect(live.tagOwners).toEqual({ 'tag:ops': ['alice@'], 'tag:edge': ['meristem@'], 'tag:db': ['meristem@'] });
+    expect(live.acls).toEqual([
+      { action: 'accept', src: ['tag:ops'], dst: ['*:22'] },
+      { action: 'accept', src: ['tag:edge'], dst: ['tag:db:5432'] },
+    ]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
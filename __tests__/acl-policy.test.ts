@@ -0,0 +1,190 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createAclManager,
+  decodePolicy,
+  diffPolicy,
+  parsePolicyDocument,
+  stripHuJson,
+  validatePolicy,
+} from '../src/acl-policy';
+import { createHeadscaleClient } from '../src/headscale-client';
+import { PluginError } from '../src/plugin-errors';
+
+const POLICY = {
+  groups: { 'group:ops': ['alice@'] },
+  tagOwners: { 'tag:edge': ['group:ops'] },
+  hosts: { nas: '192.168.1.10/32' },
+  acls: [{ action: 'accept', src: ['group:ops'], dst: ['tag:edge:22,443', 'nas:*'] }],
+};
+
+const withHistoryDir = async (run: (path: string) => Promise<void>): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-acl-'));
+  try {
+    await run(join(dir, 'acl-history.json'));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const createFakeHeadscale = (initial: string) => {
+  let stored = initial;
+  const writes: string[] = [];
+  const client = createHeadscaleClient({
+    baseUrl: 'http://headscale.test',
+    apiKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    fetcher: async (input, init) => {
+      if (input.endsWith('/api/v1/user')) {
+        return new Response(JSON.stringify({ users: [{ id: '1', name: 'alice' }] }), { status: 200 });
+      }
+
+      if (init?.method === 'PUT') {
+        stored = (JSON.parse(String(init.body)) as { policy: string }).policy;
+        writes.push(stored);
+        return new Response(JSON.stringify({ policy: stored }), { status: 200 });
+      }
+
+      return new Response(JSON.stringify({ policy: stored, updatedAt: '2025-01-01T00:00:00Z' }), { status: 200 });
+    },
+  });
+
+  return { client, writes, current: (): string => stored };
+};
+
+test('hujson comments and trailing commas are stripped outside strings', (): void => {
+  const text = '{\n  // owners\n  "groups": { "group:a": ["x//y@",], /* inline */ },\n}';
+  expect(JSON.parse(stripHuJson(text))).toEqual({ groups: { 'group:a': ['x//y@'] } });
+  expect(parsePolicyDocument('').acls).toEqual([]);
+});
+
+test('policy decoding rejects mistyped sections', (): void => {
+  expect(() => decodePolicy({ acls: [{ action: 'deny', src: [], dst: [] }] })).toThrow('policy.acls[0].action');
+  expect(() => decodePolicy({ groups: { 'group:a': 'alice' } })).toThrow('policy.groups.group:a');
+});
+
+test('policy validator reports unknown groups, tags, hosts and ports', (): void => {
+  const policy = decodePolicy({
+    ...POLICY,
+    acls: [
+      {
+        action: 'accept',
+        src: ['group:missing', 'bob'],
+        dst: ['tag:unknown:22', 'printer:80', 'nas'],
+      },
+    ],
+    ssh: [{ action: 'check', src: ['group:ops'], dst: ['tag:edge'], users: ['autogroup:root'] }],
+  });
+
+  expect(validatePolicy(policy, { users: ['alice'] })).toEqual([
+    { path: 'acls[0].src[0]', message: 'unknown group group:missing' },
+    { path: 'acls[0].src[1]', message: 'unknown host or user bob' },
+    { path: 'acls[0].dst[0]', message: 'unknown tag tag:unknown' },
+    { path: 'acls[0].dst[1]', message: 'unknown host or user printer' },
+    { path: 'acls[0].dst[2]', message: 'missing or invalid port list in nas' },
+    { path: 'ssh[0].users[0]', message: 'unknown autogroup autogroup:root' },
+  ]);
+  expect(validatePolicy(decodePolicy(POLICY), { users: ['alice'] })).toEqual([]);
+});
+
+test('policy diff reports structural changes by path', (): void => {
+  const before = decodePolicy(POLICY);
+  const after = decodePolicy({ ...POLICY, hosts: {}, groups: { 'group:ops': ['alice@', 'carol@'] } });
+
+  expect(diffPolicy(before, after)).toEqual([
+    { path: 'groups.group:ops[1]', op: 'add', after: 'carol@' },
+    { path: 'hosts.nas', op: 'remove', before: '192.168.1.10/32' },
+  ]);
+});
+
+test('acl manager supports dry-run, apply and rollback to the baseline', async (): Promise<void> => {
+  await withHistoryDir(async (historyPath) => {
+    const headscale = createFakeHeadscale('{ "acls": [ { "action": "accept", "src": ["*"], "dst": ["*:*"] }, ] }');
+    const manager = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 5, now: () => 7 });
+
+    const preview = await manager.apply(POLICY, { dryRun: true });
+    expect([preview.dryRun, preview.applied, preview.issues]).toEqual([true, false, []]);
+    expect(preview.diff.length > 0).toBe(true);
+    expect(headscale.writes).toHaveLength(0);
+
+    const applied = await manager.apply(POLICY);
+    expect([applied.applied, applied.version]).toEqual([true, 2]);
+    expect(JSON.parse(headscale.current())).toEqual(decodePolicy(POLICY));
+    expect((await manager.apply(POLICY)).applied).toBe(false);
+
+    const rolledBack = await manager.rollback();
+    expect(rolledBack.version).toBe(1);
+    expect(JSON.parse(headscale.current()).acls).toEqual([{ action: 'accept', src: ['*'], dst: ['*:*'] }]);
+
+    const reloaded = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 5 });
+    expect((await reloaded.getHistory()).map((entry) => [entry.version, entry.source])).toEqual([[1, 'baseline']]);
+
+    let code: string | null = null;
+    try {
+      await reloaded.rollback();
+    } catch (error) {
+      code = error instanceof PluginError ? error.code : null;
+    }
+    expect(code).toBe('PRECONDITION_FAILED');
+  });
+});
+
+test('acl manager refuses to push an invalid policy', async (): Promise<void> => {
+  await withHistoryDir(async (historyPath) => {
+    const headscale = createFakeHeadscale('');
+    const manager = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 5 });
+    const invalid = { ...POLICY, tagOwners: {} };
+
+    expect((await manager.apply(invalid, { dryRun: true })).issues).toEqual([
+      { path: 'acls[0].dst[0]', message: 'unknown tag tag:edge' },
+    ]);
+    await expect(manager.apply(invalid)).rejects.toThrow('Policy validation failed');
+    expect(headscale.writes).toHaveLength(0);
+  });
+});
+
+test('acl manager keeps sections it does not model through apply and rollback', async (): Promise<void> => {
+  await withHistoryDir(async (historyPath) => {
+    const autoApprovers = { routes: { '10.0.0.0/8': ['group:ops'] }, exitNode: ['tag:edge'] };
+    const headscale = createFakeHeadscale(JSON.stringify({ ...POLICY, autoApprovers, tests: [] }));
+    const manager = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 5 });
+
+    const current = await manager.current();
+    expect([current.autoApprovers, current.tests]).toEqual([autoApprovers, []]);
+
+    const applied = await manager.apply({
+      ...current,
+      acls: [{ action: 'accept', src: ['group:ops'], dst: ['tag:edge:22'] }],
+    });
+    expect(applied.diff.some((change) => change.path.startsWith('autoApprovers'))).toBe(false);
+    expect(JSON.parse(headscale.current()).autoApprovers).toEqual(autoApprovers);
+
+    await manager.apply({ ...current, autoApprovers: {} });
+    await manager.rollback();
+    expect(JSON.parse(headscale.current()).autoApprovers).toEqual(autoApprovers);
+  });
+});
+
+test('concurrent applies each record a history entry', async (): Promise<void> => {
+  await withHistoryDir(async (historyPath) => {
+    const headscale = createFakeHeadscale('');
+    const manager = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 10 });
+
+    await Promise.all([
+      manager.apply(POLICY),
+      manager.apply({ ...POLICY, hosts: { nas: '192.168.1.11/32' } }),
+      manager.apply({ ...POLICY, hosts: { nas: '192.168.1.12/32' } }),
+    ]);
+
+    expect((await manager.getHistory()).map((entry) => [entry.version, entry.source])).toEqual([
+      [1, 'baseline'],
+      [2, 'apply'],
+      [3, 'apply'],
+      [4, 'apply'],
+    ]);
+    const reloaded = createAclManager({ getClient: () => headscale.client, historyPath, historyLimit: 10 });
+    expect(await reloaded.getHistory()).toHaveLength(4);
+  });
+});
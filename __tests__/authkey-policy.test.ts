@@ -0,0 +1,129 @@
+import { expect, test } from 'bun:test';
+import {
+  createAuthKeyPolicy,
+  parseAuthKeyRequest,
+  readAuthKeyPolicyConfig,
+  type AuthKeyRequest,
+} from '../src/authkey-policy';
+import { PluginError } from '../src/plugin-errors';
+
+const NOW = Date.parse('2025-01-01T00:00:00Z');
+
+const ALL_OPS = { '*': ['ops'] };
+
+const request = (overrides: Partial<AuthKeyRequest> = {}): AuthKeyRequest => ({
+  user: 'ops',
+  reusable: false,
+  ephemeral: false,
+  expiration: null,
+  aclTags: [],
+  ...overrides,
+});
+
+const errorCode = (run: () => unknown): string | null => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return error instanceof PluginError ? error.code : 'UNEXPECTED';
+  }
+};
+
+test('auth key request schema rejects mistyped fields', (): void => {
+  expect(parseAuthKeyRequest({ user: 'ops', aclTags: ['tag:edge', 'tag:edge'] })).toEqual(
+    request({ aclTags: ['tag:edge'] }),
+  );
+  expect(errorCode(() => parseAuthKeyRequest(undefined))).toBe('INVALID_PARAMS');
+  expect(errorCode(() => parseAuthKeyRequest({ user: '' }))).toBe('INVALID_PARAMS');
+  expect(errorCode(() => parseAuthKeyRequest({ user: 'ops', reusable: 'yes' }))).toBe('INVALID_PARAMS');
+  expect(errorCode(() => parseAuthKeyRequest({ user: 'ops', expiration: 'tomorrow' }))).toBe('INVALID_PARAMS');
+  expect(errorCode(() => parseAuthKeyRequest({ user: 'ops', aclTags: ['edge'] }))).toBe('INVALID_PARAMS');
+});
+
+test('auth key policy applies default ttl and enforces maxima', (): void => {
+  const policy = createAuthKeyPolicy({
+    config: readAuthKeyPolicyConfig({ defaultTtlMs: 60_000, maxTtlMs: 3_600_000, allowedUsers: ALL_OPS }),
+    now: () => NOW,
+  });
+
+  expect(policy.authorize('core', request())).toEqual({
+    user: 'ops',
+    reusable: false,
+    ephemeral: false,
+    expiration: '2025-01-01T00:01:00.000Z',
+    aclTags: [],
+  });
+  expect(errorCode(() => policy.authorize('core', request({ reusable: true })))).toBe('POLICY_DENIED');
+  expect(errorCode(() => policy.authorize('core', request({ expiration: '2025-01-02T00:00:00Z' })))).toBe(
+    'POLICY_DENIED',
+  );
+  expect(errorCode(() => policy.authorize('core', request({ expiration: '2024-12-31T00:00:00Z' })))).toBe(
+    'POLICY_DENIED',
+  );
+});
+
+test('auth key policy restricts tags per caller', (): void => {
+  const policy = createAuthKeyPolicy({
+    config: readAuthKeyPolicyConfig({
+      allowedTags: { 'com.meristem.edge': ['tag:edge'], '*': ['tag:guest'] },
+      allowedUsers: ALL_OPS,
+    }),
+    now: () => NOW,
+  });
+
+  expect(policy.authorize('com.meristem.edge', request({ aclTags: ['tag:edge'] })).aclTags).toEqual(['tag:edge']);
+  expect(errorCode(() => policy.authorize('com.meristem.edge', request({ aclTags: ['tag:guest'] })))).toBe(
+    'POLICY_DENIED',
+  );
+  expect(policy.authorize('other', request({ aclTags: ['tag:guest'] })).aclTags).toEqual(['tag:guest']);
+});
+
+test('auth key policy restricts target users per caller', (): void => {
+  const policy = createAuthKeyPolicy({
+    config: readAuthKeyPolicyConfig({ allowedUsers: { 'com.meristem.edge': ['edge'], '*': ['ops'] } }),
+    now: () => NOW,
+  });
+
+  expect(policy.authorize('com.meristem.edge', request({ user: 'edge' })).user).toBe('edge');
+  expect(errorCode(() => policy.authorize('com.meristem.edge', request()))).toBe('POLICY_DENIED');
+  expect(policy.authorize('other', request()).user).toBe('ops');
+  expect(errorCode(() => policy.authorize('other', request({ user: 'edge' })))).toBe('POLICY_DENIED');
+  expect(
+    errorCode(() =>
+      createAuthKeyPolicy({ config: readAuthKeyPolicyConfig({}), now: () => NOW }).authorize('a', request()),
+    ),
+  ).toBe('POLICY_DENIED');
+});
+
+test('auth key policy rate limits each caller independently', (): void => {
+  let clock = NOW;
+  const policy = createAuthKeyPolicy({
+    config: readAuthKeyPolicyConfig({ rateLimit: { limit: 2, windowMs: 1_000 }, allowedUsers: ALL_OPS }),
+    now: () => clock,
+  });
+
+  policy.authorize('a', request());
+  policy.consumeQuota('a');
+  policy.authorize('a', request());
+  policy.consumeQuota('a');
+  expect(errorCode(() => policy.authorize('a', request()))).toBe('POLICY_DENIED');
+  expect(errorCode(() => policy.authorize('b', request()))).toBe(null);
+
+  clock += 1_001;
+  expect(errorCode(() => policy.authorize('a', request()))).toBe(null);
+});
+
+test('auth key policy charges quota only for keys that were created', (): void => {
+  const policy = createAuthKeyPolicy({
+    config: readAuthKeyPolicyConfig({ rateLimit: { limit: 1, windowMs: 1_000 }, allowedUsers: ALL_OPS }),
+    now: () => NOW,
+  });
+
+  // 创建失败时不调用 consumeQuota，反复授权也不会耗尽配额。
+  policy.authorize('a', request());
+  policy.authorize('a', request());
+  expect(errorCode(() => policy.authorize('a', request()))).toBe(null);
+
+  policy.consumeQuota('a');
+  expect(errorCode(() => policy.authorize('a', request()))).toBe('POLICY_DENIED');
+});
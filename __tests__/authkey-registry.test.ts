@@ -0,0 +1,159 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAuthKeyRegistry } from '../src/authkey-registry';
+import { createHeadscaleClient } from '../src/headscale-client';
+import type { HeadscalePreAuthKey } from '../src/headscale-types';
+import { PluginError } from '../src/plugin-errors';
+
+const issued = (id: string, overrides: Partial<HeadscalePreAuthKey> = {}): HeadscalePreAuthKey => ({
+  id,
+  key: `secret-${id}`,
+  user: 'ops',
+  reusable: false,
+  ephemeral: false,
+  used: false,
+  expiration: '2025-01-02T00:00:00Z',
+  createdAt: null,
+  aclTags: [],
+  ...overrides,
+});
+
+const createFixture = async (remote: Array<Record<string, unknown>>, existingStatePath?: string) => {
+  const statePath = existingStatePath ?? join(await mkdtemp(join(tmpdir(), 'mnet-authkeys-')), 'authkeys.json');
+  let clock = Date.parse('2025-01-01T00:00:00Z');
+  const expired: unknown[] = [];
+  const client = createHeadscaleClient({
+    baseUrl: 'http://headscale.test',
+    apiKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    fetcher: async (input, init) => {
+      if (input.endsWith('/api/v1/preauthkey/expire')) {
+        expired.push(JSON.parse(String(init?.body)));
+        return new Response('{}', { status: 200 });
+      }
+
+      return new Response(JSON.stringify({ preAuthKeys: remote }), { status: 200 });
+    },
+  });
+
+  const registry = createAuthKeyRegistry({
+    getClient: () => client,
+    statePath,
+    maxUnusedAgeMs: 60_000,
+    sweepIntervalMs: 10_000,
+    now: () => clock,
+  });
+
+  return {
+    registry,
+    expired,
+    statePath,
+    advance: (ms: number): void => {
+      clock += ms;
+    },
+  };
+};
+
+test('registry records issued keys without exposing secrets and syncs used state', async (): Promise<void> => {
+  const fixture = await createFixture([{ id: '1', key: 'secret-1', user: 'ops', used: true }]);
+  await fixture.registry.record(issued('1'), { caller: 'com.meristem.edge', traceId: 'trace-1' });
+  await fixture.registry.record(issued('2'), { caller: 'node.join' });
+
+  const result = await fixture.registry.list();
+  expect(result.refreshError).toBe(null);
+  expect(result.keys.map((key) => [key.id, key.caller, key.traceId, key.status])).toEqual([
+    ['1', 'com.meristem.edge', 'trace-1', 'used'],
+    ['2', 'node.join', null, 'unused'],
+  ]);
+  expect(JSON.stringify(result.keys).includes('secret')).toBe(false);
+  expect((await fixture.registry.list({ status: 'unused' })).keys.map((key) => key.id)).toEqual(['2']);
+});
+
+test('registry revokes keys through the headscale api', async (): Promise<void> => {
+  const fixture = await createFixture([]);
+  await fixture.registry.record(issued('1'), { caller: 'core' });
+
+  const revoked = await fixture.registry.revoke('1');
+  expect([revoked.status, revoked.revokeReason]).toEqual(['revoked', 'manual']);
+  expect(fixture.expired).toEqual([{ user: 'ops', key: 'secret-1' }]);
+
+  await fixture.registry.revoke('1');
+  expect(fixture.expired).toHaveLength(1);
+
+  let code: string | null = null;
+  try {
+    await fixture.registry.revoke('missing');
+  } catch (error) {
+    code = error instanceof PluginError ? error.code : null;
+  }
+  expect(code).toBe('NOT_FOUND');
+});
+
+test('sweeper expires only unused keys past the maximum age', async (): Promise<void> => {
+  const fixture = await createFixture([{ id: '2', key: 'secret-2', user: 'ops', used: true }]);
+  await fixture.registry.record(issued('1'), { caller: 'core' });
+  await fixture.registry.record(issued('2'), { caller: 'core' });
+
+  expect(await fixture.registry.sweep()).toEqual({ revoked: [], failed: [] });
+
+  fixture.advance(60_000);
+  await fixture.registry.record(issued('3'), { caller: 'core' });
+  expect(await fixture.registry.sweep()).toEqual({ revoked: ['1'], failed: [] });
+  expect(fixture.expired).toEqual([{ user: 'ops', key: 'secret-1' }]);
+});
+
+test('registry restores persisted records without secrets after a restart', async (): Promise<void> => {
+  const first = await createFixture([]);
+  await first.registry.record(issued('1'), { caller: 'core', traceId: 'trace-1' });
+  expect((await readFile(first.statePath, 'utf-8')).includes('secret')).toBe(false);
+
+  const restarted = await createFixture([{ id: '1', key: 'secret-1', user: 'ops' }], first.statePath);
+  expect((await restarted.registry.list()).keys.map((key) => [key.id, key.caller, key.traceId, key.status])).toEqual([
+    ['1', 'core', 'trace-1', 'unused'],
+  ]);
+
+  restarted.advance(60_000);
+  expect(await restarted.registry.sweep()).toEqual({ revoked: ['1'], failed: [] });
+  expect(restarted.expired).toEqual([{ user: 'ops', key: 'secret-1' }]);
+});
+
+test('concurrent records on a fresh registry are all kept', async (): Promise<void> => {
+  const fixture = await createFixture([]);
+  await Promise.all([
+    fixture.registry.record(issued('1'), { caller: 'core' }),
+    fixture.registry.record(issued('2'), { caller: 'node.join' }),
+  ]);
+
+  expect((await fixture.registry.list()).keys.map((key) => key.id)).toEqual(['1', '2']);
+  expect(JSON.parse(await readFile(fixture.statePath, 'utf-8')).keys.map((key: { id: string }) => key.id)).toEqual([
+    '1',
+    '2',
+  ]);
+});
+
+test('scheduled sweep failures are reported instead of rejecting in the background', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-authkeys-'));
+  const blocker = join(dir, 'not-a-dir');
+  await writeFile(blocker, '');
+  const handlers: Array<() => void> = [];
+  const errors: string[] = [];
+  const registry = createAuthKeyRegistry({
+    getClient: () => null,
+    statePath: join(blocker, 'authkeys.json'),
+    maxUnusedAgeMs: 60_000,
+    sweepIntervalMs: 10_000,
+    onSweepError: (error) => errors.push(String(error)),
+    setTimer: (handler) => handlers.push(handler),
+    clearTimer: () => undefined,
+  });
+
+  registry.start();
+  handlers.shift()?.();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  registry.stop();
+
+  expect(errors).toHaveLength(1);
+  expect(handlers).toHaveLength(1);
+});
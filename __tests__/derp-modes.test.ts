@@ -1,5 +1,15 @@
 import { expect, test } from 'bun:test';
-import { createDerpManager, type DerpNode } from '../src/derp-manager';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createDerpManager,
+  refreshDerpMapFile,
+  renderDerpMapFile,
+  renderDerpMapYaml,
+  writeDerpMapFile,
+  type DerpNode,
+} from '../src/derp-manager';
 
 const SELF_NODE: DerpNode = {
   id: 'self-1',
@@ -106,3 +116,175 @@ test('derp manager applies cooldown when switching relay nodes', async (): Promi
   });
   expect(third?.id).toBe('public-1');
 });
+
+test('derp manager hot reloads the public file and keeps the last known good set', async (): Promise<void> => {
+  let content = JSON.stringify({ nodes: [PUBLIC_NODE] });
+  let reads = 0;
+  let fire: () => void = () => undefined;
+  const maps: string[][] = [];
+  const manager = createDerpManager({
+    config: {
+      mode: 'public-only',
+      selfHostedNodes: [SELF_NODE],
+      publicNodesPath: '/tmp/public-derp.json',
+    },
+    readText: async () => {
+      reads += 1;
+      return content;
+    },
+    watch: (_path, onChange) => {
+      fire = onChange;
+      return () => undefined;
+    },
+    onDerpMapChange: (map) => maps.push(Object.keys(map.Regions)),
+  });
+
+  await manager.buildDerpMap();
+  await manager.selectRelayNode({});
+  expect(reads).toBe(1);
+  manager.startWatching();
+
+  content = '{ "nodes": [ broken';
+  fire();
+  expect(await manager.reloadPublicNodes()).toBe(false);
+  expect(Object.keys((await manager.buildDerpMap()).Regions)).toEqual(['2']);
+  expect(manager.getStatus().publicSource?.error).toBe('Invalid public DERP config JSON');
+
+  content = JSON.stringify([{ ...PUBLIC_NODE, id: 'public-9', regionId: 9 }]);
+  fire();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(maps).toEqual([['9']]);
+  expect(Object.keys((await manager.buildDerpMap()).Regions)).toEqual(['9']);
+  expect([manager.getStatus().publicSource?.error, manager.getStatus().publicSource?.nodeCount]).toEqual([null, 1]);
+
+  fire();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(maps).toHaveLength(1);
+  manager.stopWatching();
+});
+
+test('derp manager fails when the public file never loaded', async (): Promise<void> => {
+  const manager = createDerpManager({
+    config: {
+      mode: 'hybrid',
+      selfHostedNodes: [SELF_NODE],
+      publicNodesPath: '/tmp/public-derp.json',
+    },
+    readText: async () => JSON.stringify({ nodes: [] }),
+  });
+
+  await expect(manager.buildDerpMap()).rejects.toThrow('Public DERP config contains no nodes');
+  expect(manager.getStatus().publicSource?.error).toBe('Public DERP config contains no nodes');
+});
+
+test('derp map keeps region metadata, node flags and a stable order', async (): Promise<void> => {
+  const nodes: DerpNode[] = [
+    { ...PUBLIC_NODE, id: 'p-b', name: '2b', regionCode: 'fra', regionName: 'Frankfurt', ipv6: '2001:db8::2' },
+    { ...PUBLIC_NODE, id: 'p-a', name: '2a', hostName: 'public-2.mesh.example', canPort80: true },
+    { ...SELF_NODE, regionId: 10, stunOnly: true, avoid: true },
+  ];
+  const forward = await createDerpManager({
+    config: { mode: 'public-only', selfHostedNodes: [], publicNodes: nodes, omitDefaultRegions: true },
+  }).buildDerpMap();
+  const reversed = await createDerpManager({
+    config: { mode: 'public-only', selfHostedNodes: [], publicNodes: [...nodes].reverse(), omitDefaultRegions: true },
+  }).buildDerpMap();
+
+  expect(JSON.stringify(forward)).toBe(JSON.stringify(reversed));
+  expect(Object.keys(forward.Regions)).toEqual(['2', '10']);
+  expect(forward.OmitDefaultRegions).toBe(true);
+  expect(forward.Regions['2']).toEqual({
+    RegionID: 2,
+    RegionCode: 'fra',
+    RegionName: 'Frankfurt',
+    Nodes: [
+      {
+        Name: '2a',
+        RegionID: 2,
+        HostName: 'public-2.mesh.example',
+        IPv4: '203.0.113.10',
+        STUNPort: 3478,
+        DERPPort: 443,
+        CanPort80: true,
+      },
+      {
+        Name: '2b',
+        RegionID: 2,
+        HostName: 'public-1.mesh.example',
+        IPv4: '203.0.113.10',
+        IPv6: '2001:db8::2',
+        STUNPort: 3478,
+        DERPPort: 443,
+      },
+    ],
+  });
+  expect([forward.Regions['10']?.RegionCode, forward.Regions['10']?.Avoid]).toEqual(['region-10', true]);
+
+  expect(renderDerpMapYaml(forward)).toContain(
+    'regions:\n  2:\n    regionid: 2\n    regioncode: "fra"\n    regionname: "Frankfurt"\n    nodes:\n      - name: "2a"\n',
+  );
+  expect(renderDerpMapYaml(forward)).toContain('        stunonly: true\n        derpport: 443\n');
+  expect(renderDerpMapYaml(forward)).toContain('omitdefaultregions: true\n');
+});
+
+test('relay selection skips stun-only nodes and prefers regions not marked avoid', async (): Promise<void> => {
+  const manager = createDerpManager({
+    config: {
+      mode: 'hybrid',
+      selfHostedNodes: [{ ...SELF_NODE, avoid: true }],
+      publicNodes: [PUBLIC_NODE, { ...PUBLIC_NODE, id: 'stun-only', stunOnly: true }],
+    },
+  });
+
+  expect((await manager.selectRelayNode({ 'self-1': 1, 'stun-only': 0, 'public-1': 90 }))?.id).toBe('public-1');
+});
+
+test('derp map file is written for derp.paths only when content changes', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-derp-map-'));
+  const yamlPath = join(dir, 'derp.yaml');
+  const jsonPath = join(dir, 'derp.json');
+  const map = await createDerpManager({
+    config: { mode: 'self-hosted-only', selfHostedNodes: [SELF_NODE] },
+  }).buildDerpMap();
+
+  try {
+    expect(await writeDerpMapFile(yamlPath, map)).toBe(true);
+    expect(await writeDerpMapFile(yamlPath, map)).toBe(false);
+    expect(await readFile(yamlPath, 'utf-8')).toBe(renderDerpMapFile(yamlPath, map));
+    expect((await readFile(yamlPath, 'utf-8')).startsWith('# Generated by com.meristem.mnet')).toBe(true);
+
+    expect(await writeDerpMapFile(jsonPath, map)).toBe(true);
+    expect(JSON.parse(await readFile(jsonPath, 'utf-8')).regions['1'].nodes[0].derpport).toBe(443);
+
+    const moved = await createDerpManager({
+      config: { mode: 'self-hosted-only', selfHostedNodes: [{ ...SELF_NODE, derpPort: 8443 }] },
+    }).buildDerpMap();
+    expect(await writeDerpMapFile(yamlPath, moved)).toBe(true);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('derp map file refresh keeps the last good map and never leaves the path missing', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-derp-map-'));
+  const path = join(dir, 'derp.yaml');
+  const hybrid = createDerpManager({ config: { mode: 'hybrid', selfHostedNodes: [SELF_NODE] } });
+  const map = await createDerpManager({
+    config: { mode: 'self-hosted-only', selfHostedNodes: [SELF_NODE] },
+  }).buildDerpMap();
+
+  try {
+    await expect(refreshDerpMapFile(path, hybrid.buildDerpMap)).rejects.toThrow(
+      'hybrid mode requires non-empty public DERP source',
+    );
+    expect(await readFile(path, 'utf-8')).toBe(renderDerpMapFile(path, { Regions: {} }));
+
+    expect(await refreshDerpMapFile(path, async () => map)).toBe(true);
+    await expect(refreshDerpMapFile(path, hybrid.buildDerpMap)).rejects.toThrow(
+      'hybrid mode requires non-empty public DERP source',
+    );
+    expect(await readFile(path, 'utf-8')).toBe(renderDerpMapFile(path, map));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,143 @@
+import { expect, test } from 'bun:test';
+import { createSocket } from 'node:dgram';
+import { createServer, type AddressInfo } from 'node:net';
+import { createDerpManager, type DerpNode } from '../src/derp-manager';
+import { createDerpProber, encodeStunBindingRequest, isStunBindingSuccess, probeStun } from '../src/derp-prober';
+
+const node = (id: string, stunPort = 3478, derpPort = 443): DerpNode => ({
+  id,
+  regionId: 1,
+  name: id,
+  hostName: `${id}.mesh.local`,
+  ipv4: '127.0.0.1',
+  stunPort,
+  derpPort,
+});
+
+test('stun stand-in answers binding requests and the prober measures both ports', async (): Promise<void> => {
+  const stun = createSocket('udp4');
+  stun.on('message', (message, remote) => {
+    const response = Buffer.from(message);
+    response.writeUInt16BE(0x0101, 0);
+    stun.send(response, remote.port, remote.address);
+  });
+  await new Promise<void>((resolve) => stun.bind(0, '127.0.0.1', resolve));
+  const derp = createServer((socket) => socket.end());
+  await new Promise<void>((resolve) => derp.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const stunPort = stun.address().port;
+    const derpPort = (derp.address() as AddressInfo).port;
+    expect((await probeStun('127.0.0.1', stunPort, 1_000)) >= 0).toBe(true);
+
+    const prober = createDerpProber({ timeoutMs: 200 });
+    await prober.probeAll([{ ...node('local', stunPort, derpPort), hostName: '127.0.0.1' }]);
+    const [stats] = prober.getStats();
+    expect([stats?.samples, stats?.lossRate, stats?.derpReachable]).toEqual([1, 0, true]);
+    expect(Object.keys(prober.getLatencyMetrics())).toEqual(['local']);
+  } finally {
+    stun.close();
+    derp.close();
+  }
+});
+
+test('stun responses with a foreign transaction id are ignored', (): void => {
+  const transactionId = new Uint8Array(12).fill(7);
+  const response = encodeStunBindingRequest(transactionId);
+  response.writeUInt16BE(0x0101, 0);
+
+  expect(isStunBindingSuccess(response, transactionId)).toBe(true);
+  expect(isStunBindingSuccess(response, new Uint8Array(12).fill(8))).toBe(false);
+  expect(isStunBindingSuccess(encodeStunBindingRequest(transactionId), transactionId)).toBe(false);
+});
+
+test('rolling window penalizes loss and drops unreachable relays', async (): Promise<void> => {
+  const stunResults: Record<string, Array<number | null>> = { a: [10, null, 10, 10], b: [30, 30, 30, 30] };
+  const prober = createDerpProber({
+    windowSize: 3,
+    timeoutMs: 100,
+    probeStun: async (host) => {
+      const next = stunResults[host]?.shift();
+      if (next === null || next === undefined) {
+        throw new Error('lost');
+      }
+      return next;
+    },
+    probeDerp: async (host) => {
+      if (host === 'c.mesh.local') {
+        throw new Error('refused');
+      }
+      return 1;
+    },
+  });
+  const nodes = [
+    { ...node('a'), ipv4: 'a' },
+    { ...node('b'), ipv4: 'b' },
+    { ...node('c'), ipv4: 'b' },
+  ];
+
+  for (let round = 0; round < 4; round += 1) {
+    await prober.probeAll(nodes);
+  }
+
+  const stats = prober.getStats().find((item) => item.nodeId === 'a');
+  expect([stats?.samples, stats?.latencyMs]).toEqual([3, 10]);
+  expect(Math.round((stats?.lossRate ?? 0) * 3)).toBe(1);
+  const metrics = prober.getLatencyMetrics();
+  expect(Object.keys(metrics).sort()).toEqual(['a', 'b']);
+  expect(Math.round(metrics.a ?? 0)).toBe(43);
+
+  await prober.probeAll(nodes.slice(1));
+  expect(prober.getStats().map((item) => item.nodeId)).toEqual(['b', 'c']);
+});
+
+test('derp reachability follows the probe window instead of the last check', async (): Promise<void> => {
+  const derpResults = [true, true, false, false, false, true, true];
+  const prober = createDerpProber({
+    windowSize: 4,
+    probeStun: async () => 10,
+    probeDerp: async () => {
+      if (!derpResults.shift()) {
+        throw new Error('refused');
+      }
+      return 1;
+    },
+  });
+  const reachability: Array<boolean | null> = [];
+
+  for (let round = 0; round < 7; round += 1) {
+    await prober.probeAll([node('a')]);
+    reachability.push(prober.getStats()[0]?.derpReachable ?? null);
+  }
+
+  expect(reachability).toEqual([true, true, true, true, false, false, true]);
+});
+
+test('derp manager selects relays from probe metrics after each round', async (): Promise<void> => {
+  const handlers: Array<() => unknown> = [];
+  const latency: Record<string, number> = { '10.0.0.1': 50, '10.0.0.2': 5 };
+  const prober = createDerpProber({
+    probeStun: async (host) => latency[host] ?? 0,
+    probeDerp: async () => 1,
+    setTimer: (handler) => handlers.push(handler),
+    clearTimer: () => undefined,
+  });
+  const manager = createDerpManager({
+    config: {
+      mode: 'self-hosted-only',
+      selfHostedNodes: [
+        { ...node('slow'), ipv4: '10.0.0.1' },
+        { ...node('fast'), ipv4: '10.0.0.2' },
+      ],
+    },
+    prober,
+  });
+
+  manager.startProbing();
+  await handlers.shift()?.();
+  manager.stopProbing();
+
+  expect(manager.getStatus().activeNodeId).toBe('fast');
+  expect(manager.getProbeStats()).toHaveLength(2);
+  expect((await manager.selectRelayNode())?.id).toBe('fast');
+});
@@ -0,0 +1,109 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseDerpNodes } from '../src/derp-manager';
+import { createRemoteDerpSource } from '../src/derp-source';
+
+const tailscaleMap = (hostName: string) =>
+  JSON.stringify({
+    Regions: {
+      '900': {
+        RegionID: 900,
+        RegionCode: 'edge',
+        Nodes: [
+          { Name: '900a', RegionID: 900, HostName: hostName, IPv4: '203.0.113.9' },
+          { Name: '900s', RegionID: 900, HostName: 'stun.example.com', STUNOnly: true },
+        ],
+      },
+      '901': { RegionID: 901, Nodes: [{ Name: '901a', HostName: 'b.example.com', STUNPort: -1, DERPPort: 8443 }] },
+    },
+  });
+
+test('tailscale derp maps are flattened with default ports and region metadata', (): void => {
+  expect(parseDerpNodes(tailscaleMap('a.example.com'))).toEqual([
+    {
+      id: '900a',
+      regionId: 900,
+      name: '900a',
+      hostName: 'a.example.com',
+      ipv4: '203.0.113.9',
+      regionCode: 'edge',
+      stunPort: 3478,
+      derpPort: 443,
+    },
+    {
+      id: '900s',
+      regionId: 900,
+      name: '900s',
+      hostName: 'stun.example.com',
+      regionCode: 'edge',
+      stunOnly: true,
+      stunPort: 3478,
+      derpPort: 443,
+    },
+    {
+      id: '901a',
+      regionId: 901,
+      name: '901a',
+      hostName: 'b.example.com',
+      stunPort: -1,
+      derpPort: 8443,
+    },
+  ]);
+  expect(() => parseDerpNodes(JSON.stringify({ Regions: { '7': { Nodes: [{ Name: 'bad' }] } } }))).toThrow(
+    'public DERP source $.Regions.7.Nodes[0].HostName: must be a non-empty string',
+  );
+});
+
+test('remote derp source revalidates with etag, persists and falls back to cache', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-derp-'));
+  const cachePath = join(dir, 'derp-public-cache.json');
+  let body = tailscaleMap('a.example.com');
+  let status = 200;
+  const seen: Array<string | null> = [];
+  const server = createServer((request, response) => {
+    const etag = `"${body.length}-${body.includes('a.example.com') ? 'a' : 'b'}"`;
+    seen.push(request.headers['if-none-match'] ?? null);
+    if (status !== 200) {
+      response.writeHead(status).end();
+    } else if (request.headers['if-none-match'] === etag) {
+      response.writeHead(304).end();
+    } else {
+      response.writeHead(200, { 'content-type': 'application/json', etag }).end(body);
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/derpmap/default`;
+
+  try {
+    const source = createRemoteDerpSource({ url, cachePath, refreshIntervalMs: 60_000 });
+    expect((await source.getNodes()).map((node) => node.hostName)).toEqual([
+      'a.example.com',
+      'stun.example.com',
+      'b.example.com',
+    ]);
+    expect(await source.refresh()).toBe(false);
+
+    body = tailscaleMap('c.example.com');
+    expect(await source.refresh()).toBe(true);
+    expect((await source.getNodes())[0]?.hostName).toBe('c.example.com');
+
+    status = 500;
+    expect(await source.refresh()).toBe(false);
+    expect(source.getStatus().error).toBe(`DERP map fetch from ${url} failed with HTTP 500`);
+    expect(source.getStatus().nodeCount).toBe(3);
+    // 首次无条件请求，之后都带上一次的 ETag；内容变化后携带新的 ETag。
+    expect([seen[0], seen[1] === seen[2], seen[3] !== seen[1]]).toEqual([null, true, true]);
+    expect(JSON.parse(await readFile(cachePath, 'utf-8')).body).toBe(body);
+
+    const restarted = createRemoteDerpSource({ url, cachePath, refreshIntervalMs: 60_000 });
+    expect((await restarted.getNodes())[0]?.hostName).toBe('c.example.com');
+    expect(restarted.getStatus().fromCache).toBe(true);
+  } finally {
+    server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
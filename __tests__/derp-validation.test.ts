@@ -0,0 +1,130 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { assertPublicNodesCompatible, createDerpManager, parseDerpNodes, type DerpNode } from '../src/derp-manager';
+import { createRemoteDerpSource } from '../src/derp-source';
+import { findDerpNodeConflicts, validateDerpNodes } from '../src/derp-validation';
+
+const NODE: DerpNode = {
+  id: 'relay-1',
+  regionId: 900,
+  name: '900a',
+  hostName: 'relay-1.mesh.example',
+  stunPort: 3478,
+  derpPort: 443,
+};
+
+test('derp validation reports every invalid field with source and path', (): void => {
+  const result = validateDerpNodes(
+    [
+      NODE,
+      { ...NODE, id: 'relay-2', regionId: 0, hostName: 'bad host', ipv4: '300.1.1.1', derpPort: 70_000 },
+      { ...NODE, id: 'relay-3', hostName: 'relay-3.mesh.example', stunPort: -1, stunOnly: true },
+    ],
+    'derpSelfHosted',
+  );
+
+  expect(result.nodes.map((node) => node.id)).toEqual(['relay-1']);
+  expect(result.issues).toEqual([
+    { source: 'derpSelfHosted', path: '$[1].regionId', message: 'must be at least 1, got 0' },
+    { source: 'derpSelfHosted', path: '$[1].hostName', message: 'is not a valid hostname or IP address: bad host' },
+    { source: 'derpSelfHosted', path: '$[1].derpPort', message: 'must be a port between 1 and 65535, got 70000' },
+    { source: 'derpSelfHosted', path: '$[1].ipv4', message: 'is not a valid IPv4 address: 300.1.1.1' },
+    { source: 'derpSelfHosted', path: '$[2].stunOnly', message: 'STUN-only node must not disable STUN' },
+  ]);
+});
+
+test('derp validation accepts disabled STUN and drops unset optional flags', (): void => {
+  const result = validateDerpNodes([{ ...NODE, stunPort: -1, avoid: false, canPort80: true }], 'derpPublic');
+
+  expect(result.issues).toEqual([]);
+  expect(result.nodes).toEqual([{ ...NODE, stunPort: -1, canPort80: true }]);
+});
+
+test('derp validation detects duplicate ids and endpoints across sources', (): void => {
+  const selfHosted = validateDerpNodes([NODE], 'derpSelfHosted');
+  const publicNodes = validateDerpNodes(
+    [
+      { ...NODE, hostName: 'relay-9.mesh.example' },
+      { ...NODE, id: 'relay-2', hostName: 'RELAY-1.mesh.example' },
+      { ...NODE, id: 'stun-1', stunOnly: true },
+    ],
+    'derpPublic',
+  );
+
+  expect(findDerpNodeConflicts([selfHosted.set, publicNodes.set])).toEqual([
+    { source: 'derpPublic', path: '$[0]', message: 'duplicate id relay-1 (first at derpSelfHosted $[0])' },
+    {
+      source: 'derpPublic',
+      path: '$[1]',
+      message: 'duplicate endpoint relay-1.mesh.example:443 (first at derpSelfHosted $[0])',
+    },
+  ]);
+});
+
+test('public DERP file errors point at the offending entry', (): void => {
+  const raw = JSON.stringify({
+    nodes: [NODE, { ...NODE, id: 'relay-2', hostName: 'relay-2.mesh.example', stunPort: 0 }],
+  });
+
+  expect(() => parseDerpNodes(raw, '/etc/mnet/derp-public.json')).toThrow(
+    'Invalid DERP nodes: /etc/mnet/derp-public.json $.nodes[1].stunPort: must be -1 (disabled) or a port between 1 and 65535, got 0',
+  );
+});
+
+test('hybrid mode rejects public nodes that collide with self-hosted nodes', async (): Promise<void> => {
+  const manager = createDerpManager({
+    config: {
+      mode: 'hybrid',
+      selfHostedNodes: [NODE],
+      publicNodes: [{ ...NODE, hostName: 'relay-9.mesh.example' }],
+    },
+  });
+
+  await expect(manager.buildDerpMap()).rejects.toThrow(
+    'Invalid DERP nodes: publicNodes [id=relay-1]: duplicate id relay-1 (first at selfHostedNodes [id=relay-1])',
+  );
+});
+
+test('colliding public file edits in hybrid mode keep the last known good set', async (): Promise<void> => {
+  const publicNode = { ...NODE, id: 'relay-2', hostName: 'relay-2.mesh.example' };
+  let content = JSON.stringify([publicNode]);
+  const manager = createDerpManager({
+    config: { mode: 'hybrid', selfHostedNodes: [NODE], publicNodesPath: '/tmp/public-derp.json' },
+    readText: async () => content,
+  });
+  expect((await manager.selectRelayNode({}))?.id).toBe('relay-1');
+
+  content = JSON.stringify([publicNode, { ...NODE, id: 'relay-3' }]);
+  expect(await manager.reloadPublicNodes()).toBe(false);
+  expect(manager.getStatus().publicSource?.error).toBe(
+    'Invalid DERP nodes: publicNodes [id=relay-3]: duplicate endpoint relay-1.mesh.example:443 (first at selfHostedNodes [id=relay-1])',
+  );
+  expect((await manager.buildDerpMap()).Regions['900']?.Nodes).toHaveLength(2);
+  expect((await manager.selectRelayNode({}))?.id).toBe('relay-1');
+});
+
+test('remote derp source rejects a colliding map before replacing its nodes', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-derp-'));
+  let nodes: DerpNode[] = [{ ...NODE, id: 'relay-2', hostName: 'relay-2.mesh.example' }];
+  const source = createRemoteDerpSource({
+    url: 'https://derp.example.com/map.json',
+    cachePath: join(dir, 'derp-public-cache.json'),
+    refreshIntervalMs: 60_000,
+    fetcher: async () => new Response(JSON.stringify(nodes)),
+    checkNodes: (candidate) => assertPublicNodesCompatible({ mode: 'hybrid', selfHostedNodes: [NODE] }, candidate),
+  });
+
+  try {
+    expect((await source.getNodes()).map((node) => node.id)).toEqual(['relay-2']);
+    nodes = [{ ...NODE, hostName: 'relay-9.mesh.example' }];
+    expect(await source.refresh()).toBe(false);
+    expect(source.getStatus().error).toBe(
+      'Invalid DERP nodes: publicNodes [id=relay-1]: duplicate id relay-1 (first at selfHostedNodes [id=relay-1])',
+    );
+    expect((await source.getNodes()).map((node) => node.id)).toEqual(['relay-2']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,78 @@
+import { expect, test } from 'bun:test';
+import { buildDnsRecords } from '../src/dns-records';
+import { resolveHeadscaleConfig } from '../src/headscale-config';
+import { decodeNode } from '../src/headscale-types';
+import { nodeIdentityTag } from '../src/node-events';
+import { createMeristemIdResolver, toInventoryNode } from '../src/node-inventory';
+
+const resolve = createMeristemIdResolver(['edge-01'], nodeIdentityTag);
+
+test('dns records map node names and extra records to overlay addresses', (): void => {
+  const dns = resolveHeadscaleConfig(
+    {
+      dns: {
+        baseDomain: 'Mesh.Internal',
+        extraRecords: [{ name: 'grafana.mesh.internal', type: 'A', value: '100.64.0.9' }],
+      },
+    },
+    { apiUrl: 'http://127.0.0.1:8079', configPath: '/opt/meristem/mnet/headscale.yaml' },
+  ).dns;
+  const nodes = [
+    decodeNode({
+      id: '1',
+      name: 'edge-01',
+      given_name: 'Edge-01',
+      ip_addresses: ['100.64.0.1', 'fd7a:115c:a1e0::1'],
+      forced_tags: ['tag:meristem-edge-01'],
+    }),
+    decodeNode({ id: '2', name: 'pending' }),
+  ].map((node) => toInventoryNode(node, resolve));
+
+  expect(buildDnsRecords(nodes, dns)).toEqual({
+    baseDomain: 'Mesh.Internal',
+    magicDns: true,
+    records: [
+      {
+        name: 'edge-01.mesh.internal',
+        type: 'A',
+        value: '100.64.0.1',
+        source: 'node',
+        nodeId: '1',
+        meristemNodeId: 'edge-01',
+      },
+      {
+        name: 'edge-01.mesh.internal',
+        type: 'AAAA',
+        value: 'fd7a:115c:a1e0::1',
+        source: 'node',
+        nodeId: '1',
+        meristemNodeId: 'edge-01',
+      },
+      {
+        name: 'grafana.mesh.internal',
+        type: 'A',
+        value: '100.64.0.9',
+        source: 'extra',
+        nodeId: null,
+        meristemNodeId: null,
+      },
+    ],
+  });
+});
+
+test('dns records are empty when MagicDNS is disabled', (): void => {
+  const dns = resolveHeadscaleConfig(
+    {
+      dns: {
+        magicDns: false,
+        extraRecords: [{ name: 'grafana.mesh.internal', type: 'A', value: '100.64.0.9' }],
+      },
+    },
+    { apiUrl: 'http://127.0.0.1:8079', configPath: '/opt/meristem/mnet/headscale.yaml' },
+  ).dns;
+  const nodes = [decodeNode({ id: '1', name: 'edge-01', ip_addresses: ['100.64.0.1'] })].map((node) =>
+    toInventoryNode(node, resolve),
+  );
+
+  expect(buildDnsRecords(nodes, dns)).toEqual({ baseDomain: 'mnet.meristem.internal', magicDns: false, records: [] });
+});
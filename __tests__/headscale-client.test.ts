@@ -0,0 +1,228 @@
+import { expect, test } from 'bun:test';
+import { createHeadscaleClient } from '../src/headscale-client';
+
+type RecordedCall = {
+  url: string;
+  method: string;
+  body: unknown;
+  authorization: string | null;
+};
+
+const createFetcher = (
+  responder: (call: RecordedCall) => { status?: number; body?: unknown },
+): {
+  fetcher: (input: string, init?: RequestInit) => Promise<Response>;
+  calls: RecordedCall[];
+} => {
+  const calls: RecordedCall[] = [];
+
+  return {
+    fetcher: async (input, init = {}) => {
+      const headers = new Headers(init.headers);
+      const call: RecordedCall = {
+        url: input,
+        method: init.method ?? 'GET',
+        body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+        authorization: headers.get('Authorization'),
+      };
+      calls.push(call);
+
+      const result = responder(call);
+      return new Response(result.body === undefined ? '' : JSON.stringify(result.body), {
+        status: result.status ?? 200,
+      });
+    },
+    calls,
+  };
+};
+
+const NODE_PAYLOAD = {
+  id: '7',
+  machine_key: 'mkey:abc',
+  node_key: 'nodekey:def',
+  ip_addresses: ['100.64.0.7', 'fd7a:115c:a1e0::7'],
+  name: 'edge-7',
+  given_name: 'edge-7',
+  user: { id: '1', name: 'meristem', created_at: '2025-01-01T00:00:00Z' },
+  last_seen: '2025-02-01T00:00:00Z',
+  online: true,
+  forced_tags: ['tag:edge'],
+  valid_tags: ['tag:edge'],
+  invalid_tags: [],
+};
+
+test('headscale client decodes users and sends bearer auth', async (): Promise<void> => {
+  const { fetcher, calls } = createFetcher(() => ({
+    body: { users: [{ id: '1', name: 'meristem', display_name: 'Meristem' }] },
+  }));
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local/', apiKey: 'secret', fetcher });
+
+  const users = await client.listUsers();
+  expect(users).toEqual([{ id: '1', name: 'meristem', displayName: 'Meristem', email: null, createdAt: null }]);
+  expect(calls[0]?.url).toBe('http://hs.local/api/v1/user');
+  expect(calls[0]?.authorization).toBe('Bearer secret');
+});
+
+test('headscale client covers user mutations', async (): Promise<void> => {
+  const { fetcher, calls } = createFetcher((call) =>
+    call.method === 'DELETE' ? { body: {} } : { body: { user: { id: '2', name: 'ops' } } },
+  );
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  const created = await client.createUser({ name: 'ops' });
+  const renamed = await client.renameUser('2', 'ops team');
+  await client.deleteUser('2');
+
+  expect(created.name).toBe('ops');
+  expect(renamed.id).toBe('2');
+  expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+    'POST http://hs.local/api/v1/user',
+    'POST http://hs.local/api/v1/user/2/rename/ops%20team',
+    'DELETE http://hs.local/api/v1/user/2',
+  ]);
+  expect(calls[0]?.body).toEqual({ name: 'ops' });
+});
+
+test('headscale client decodes nodes and routes node operations', async (): Promise<void> => {
+  const { fetcher, calls } = createFetcher((call) => {
+    if (call.method === 'GET' && call.url.includes('/api/v1/node?')) {
+      return { body: { nodes: [NODE_PAYLOAD] } };
+    }
+    if (call.method === 'DELETE') {
+      return { body: {} };
+    }
+    return { body: { node: NODE_PAYLOAD } };
+  });
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  const nodes = await client.listNodes({ user: 'meristem' });
+  expect(nodes).toHaveLength(1);
+  expect(nodes[0]?.ipAddresses).toEqual(['100.64.0.7', 'fd7a:115c:a1e0::7']);
+  expect(nodes[0]?.user?.name).toBe('meristem');
+  expect(nodes[0]?.online).toBe(true);
+  expect(nodes[0]?.forcedTags).toEqual(['tag:edge']);
+
+  await client.getNode('7');
+  await client.registerNode({ user: 'meristem', key: 'mkey:abc' });
+  await client.renameNode('7', 'edge-seven');
+  await client.expireNode('7');
+  await client.moveNode('7', 'ops');
+  await client.setNodeTags('7', ['tag:edge', 'tag:gpu']);
+  await client.deleteNode('7');
+
+  expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+    'GET http://hs.local/api/v1/node?user=meristem',
+    'GET http://hs.local/api/v1/node/7',
+    'POST http://hs.local/api/v1/node/register?user=meristem&key=mkey%3Aabc',
+    'POST http://hs.local/api/v1/node/7/rename/edge-seven',
+    'POST http://hs.local/api/v1/node/7/expire',
+    'POST http://hs.local/api/v1/node/7/user',
+    'POST http://hs.local/api/v1/node/7/tags',
+    'DELETE http://hs.local/api/v1/node/7',
+  ]);
+  expect(calls[5]?.body).toEqual({ user: 'ops' });
+  expect(calls[6]?.body).toEqual({ tags: ['tag:edge', 'tag:gpu'] });
+});
+
+test('headscale client manages pre-auth keys', async (): Promise<void> => {
+  const keyPayload = {
+    id: '3',
+    key: 'hskey-auth-xyz',
+    user: 'meristem',
+    reusable: false,
+    ephemeral: true,
+    expiration: '2025-03-01T00:00:00Z',
+    acl_tags: ['tag:edge'],
+  };
+  const { fetcher, calls } = createFetcher((call) => {
+    if (call.url.endsWith('/expire')) {
+      return { body: {} };
+    }
+    return call.method === 'GET'
+      ? { body: { pre_auth_keys: [keyPayload] } }
+      : { body: { pre_auth_key: keyPayload } };
+  });
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  const created = await client.createAuthKey({ user: 'meristem', ephemeral: true, aclTags: ['tag:edge'] });
+  expect(created.key).toBe('hskey-auth-xyz');
+  expect(created.ephemeral).toBe(true);
+  expect(created.aclTags).toEqual(['tag:edge']);
+
+  const listed = await client.listAuthKeys('meristem');
+  expect(listed).toHaveLength(1);
+
+  await client.expireAuthKey({ user: 'meristem', key: 'hskey-auth-xyz' });
+  expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+    'POST http://hs.local/api/v1/preauthkey',
+    'GET http://hs.local/api/v1/preauthkey?user=meristem',
+    'POST http://hs.local/api/v1/preauthkey/expire',
+  ]);
+});
+
+test('headscale client manages API keys', async (): Promise<void> => {
+  const { fetcher, calls } = createFetcher((call) => {
+    if (call.url.endsWith('/expire')) {
+      return { body: {} };
+    }
+    return call.method === 'GET'
+      ? { body: { api_keys: [{ id: '1', prefix: 'abcd1234', expiration: '2025-04-01T00:00:00Z' }] } }
+      : { body: { api_key: 'abcd1234.secret' } };
+  });
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  expect(await client.createApiKey({ expiration: '2025-04-01T00:00:00Z' })).toBe('abcd1234.secret');
+  const keys = await client.listApiKeys();
+  expect(keys[0]?.prefix).toBe('abcd1234');
+
+  await client.expireApiKey('abcd1234');
+  expect(calls[2]?.body).toEqual({ prefix: 'abcd1234' });
+});
+
+test('headscale client manages routes', async (): Promise<void> => {
+  const route = {
+    id: '11',
+    node: NODE_PAYLOAD,
+    prefix: '192.168.10.0/24',
+    advertised: true,
+    enabled: false,
+    is_primary: false,
+  };
+  const { fetcher, calls } = createFetcher((call) =>
+    call.method === 'GET' ? { body: { routes: [route] } } : { body: {} },
+  );
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  const routes = await client.listRoutes();
+  expect(routes[0]?.prefix).toBe('192.168.10.0/24');
+  expect(routes[0]?.node?.id).toBe('7');
+  expect(routes[0]?.advertised).toBe(true);
+
+  await client.listNodeRoutes('7');
+  await client.enableRoute('11');
+  await client.disableRoute('11');
+  await client.deleteRoute('11');
+
+  expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+    'GET http://hs.local/api/v1/routes',
+    'GET http://hs.local/api/v1/node/7/routes',
+    'POST http://hs.local/api/v1/routes/11/enable',
+    'POST http://hs.local/api/v1/routes/11/disable',
+    'DELETE http://hs.local/api/v1/routes/11',
+  ]);
+});
+
+test('headscale client treats omitted list envelopes as empty', async (): Promise<void> => {
+  const { fetcher } = createFetcher(() => ({ body: {} }));
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  expect(await client.listNodes()).toEqual([]);
+  expect(await client.listRoutes()).toEqual([]);
+});
+
+test('headscale client rejects malformed payloads', async (): Promise<void> => {
+  const { fetcher } = createFetcher(() => ({ body: { node: { name: 'missing-id' } } }));
+  const client = createHeadscaleClient({ baseUrl: 'http://hs.local', apiKey: 'secret', fetcher });
+
+  await expect(client.getNode('1')).rejects.toThrow('Invalid Headscale node payload');
+});
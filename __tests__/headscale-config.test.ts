@@ -0,0 +1,139 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  readHeadscaleConfigInput,
+  renderHeadscaleConfig,
+  resolveHeadscaleConfig,
+  validateHeadscaleConfigInput,
+  withManagedDerpMap,
+  writeHeadscaleConfig,
+} from '../src/headscale-config';
+
+const CONTEXT = {
+  apiUrl: 'http://127.0.0.1:8079',
+  configPath: '/opt/meristem/mnet/headscale.yaml',
+};
+
+test('headscale config derives listen address and data paths from plugin config', (): void => {
+  const config = resolveHeadscaleConfig({}, CONTEXT);
+
+  expect(config.serverUrl).toBe('http://127.0.0.1:8079');
+  expect(config.listenAddr).toBe('127.0.0.1:8079');
+  expect(config.databasePath).toBe('/opt/meristem/mnet/db.sqlite');
+  expect(config.noisePrivateKeyPath).toBe('/opt/meristem/mnet/noise_private.key');
+  expect(config.prefixes).toEqual({ v4: '100.64.0.0/10', v6: 'fd7a:115c:a1e0::/48' });
+});
+
+test('headscale config reads typed plugin section and ignores invalid fields', (): void => {
+  const input = readHeadscaleConfigInput({
+    serverUrl: 'https://mesh.example.com',
+    grpcAllowInsecure: 'yes',
+    dns: { baseDomain: 'nodes.mesh', magicDns: false, nameservers: ['9.9.9.9', 42] },
+    derp: { paths: ['/opt/meristem/mnet/derp.yaml'] },
+  });
+
+  expect(input === null).toBe(false);
+  const config = resolveHeadscaleConfig(input!, CONTEXT);
+  expect(config.serverUrl).toBe('https://mesh.example.com');
+  expect(config.grpcAllowInsecure).toBe(false);
+  expect(config.dns).toEqual({
+    baseDomain: 'nodes.mesh',
+    magicDns: false,
+    nameservers: ['9.9.9.9'],
+    split: {},
+    extraRecords: [],
+  });
+  expect(config.derp.paths).toEqual(['/opt/meristem/mnet/derp.yaml']);
+  expect(readHeadscaleConfigInput(undefined)).toBe(null);
+});
+
+test('headscale config renders a complete yaml document', (): void => {
+  const rendered = renderHeadscaleConfig(
+    resolveHeadscaleConfig({ policyPath: '/opt/meristem/mnet/policy.hujson', derp: { urls: [] } }, CONTEXT),
+  );
+
+  expect(rendered).toContain('server_url: "http://127.0.0.1:8079"\n');
+  expect(rendered).toContain('listen_addr: "127.0.0.1:8079"\n');
+  expect(rendered).toContain('prefixes:\n  v4: "100.64.0.0/10"\n  v6: "fd7a:115c:a1e0::/48"\n');
+  expect(rendered).toContain('  urls: []\n');
+  expect(rendered).toContain('database:\n  type: "sqlite"\n  sqlite:\n    path: "/opt/meristem/mnet/db.sqlite"\n');
+  expect(rendered).toContain('policy:\n  mode: "file"\n  path: "/opt/meristem/mnet/policy.hujson"\n');
+  expect(rendered).toContain(
+    'dns:\n  magic_dns: true\n  base_domain: "mnet.meristem.internal"\n  nameservers:\n    global:\n      - "1.1.1.1"\n',
+  );
+});
+
+test('managed derp map replaces the default derp urls and is re-read by the derp auto-update job', (): void => {
+  const managed = '/opt/meristem/mnet/derp.yaml';
+  const rendered = renderHeadscaleConfig(
+    resolveHeadscaleConfig(
+      withManagedDerpMap({ derp: { paths: ['/opt/meristem/mnet/extra.yaml'], autoUpdate: false } }, managed),
+      CONTEXT,
+    ),
+  );
+
+  expect(rendered).toContain('  urls: []\n');
+  expect(rendered).toContain(
+    '  paths:\n    - "/opt/meristem/mnet/extra.yaml"\n    - "/opt/meristem/mnet/derp.yaml"\n' +
+      '  auto_update_enabled: true\n  update_frequency: "5m"\n',
+  );
+  const explicit = withManagedDerpMap(
+    { derp: { urls: ['https://derp.example.com/map.json'], paths: [managed], updateFrequency: '30s' } },
+    managed,
+  );
+  expect(explicit.derp).toEqual({
+    urls: ['https://derp.example.com/map.json'],
+    paths: [managed],
+    autoUpdate: true,
+    updateFrequency: '30s',
+  });
+});
+
+test('headscale config validates and renders split dns and extra records', (): void => {
+  const { input, issues } = validateHeadscaleConfigInput({
+    dns: {
+      split: { 'Corp.Example.com': ['10.0.0.53'], 'bad domain': ['10.0.0.1'], 'empty.example.com': [] },
+      extraRecords: [
+        { name: 'grafana.mnet.meristem.internal', type: 'A', value: '100.64.0.3' },
+        { name: 'wrong-family.example.com', type: 'AAAA', value: '100.64.0.4' },
+        { name: 'mx.example.com', type: 'MX', value: '10 mail.example.com' },
+      ],
+    },
+  });
+
+  expect(issues).toEqual([
+    { path: 'dns.split["bad domain"]', message: 'is not a valid domain name: bad domain' },
+    { path: 'dns.split["empty.example.com"]', message: 'must be a non-empty list of resolver strings' },
+    { path: 'dns.extraRecords[1].value', message: 'is not a valid IPv6 address: "100.64.0.4"' },
+    { path: 'dns.extraRecords[2].type', message: 'must be A or AAAA, got "MX"' },
+  ]);
+
+  const config = resolveHeadscaleConfig(input!, CONTEXT);
+  expect(config.dns.split).toEqual({ 'corp.example.com': ['10.0.0.53'] });
+  expect(config.dns.extraRecords).toEqual([{ name: 'grafana.mnet.meristem.internal', type: 'A', value: '100.64.0.3' }]);
+
+  const rendered = renderHeadscaleConfig(config);
+  expect(rendered).toContain('    split:\n      corp.example.com:\n        - "10.0.0.53"\n');
+  expect(rendered).toContain(
+    '  extra_records:\n    - name: "grafana.mnet.meristem.internal"\n      type: "A"\n      value: "100.64.0.3"\n',
+  );
+});
+
+test('headscale config is written atomically only when content changes', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-config-'));
+  const path = join(dir, 'nested', 'headscale.yaml');
+
+  try {
+    const config = resolveHeadscaleConfig({}, { ...CONTEXT, configPath: path });
+    expect(await writeHeadscaleConfig(path, config)).toBe(true);
+    expect(await writeHeadscaleConfig(path, config)).toBe(false);
+    expect(await readFile(path, 'utf-8')).toBe(renderHeadscaleConfig(config));
+
+    const changed = resolveHeadscaleConfig({ logLevel: 'debug' }, { ...CONTEXT, configPath: path });
+    expect(await writeHeadscaleConfig(path, changed)).toBe(true);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
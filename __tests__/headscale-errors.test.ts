@@ -0,0 +1,94 @@
+import { expect, test } from 'bun:test';
+import { createHeadscaleClient } from '../src/headscale-client';
+import {
+  HeadscaleAuthError,
+  HeadscaleConflictError,
+  HeadscaleDecodeError,
+  HeadscaleError,
+  HeadscaleNetworkError,
+  HeadscaleNotFoundError,
+  HeadscaleServerError,
+  HeadscaleValidationError,
+} from '../src/headscale-errors';
+import { PluginError, toInvokeError } from '../src/plugin-errors';
+
+const createClient = (respond: () => Promise<Response>) =>
+  createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    fetcher: respond,
+    retry: { maxAttempts: 1 },
+  });
+
+const captureError = async (run: () => Promise<unknown>): Promise<unknown> => {
+  try {
+    await run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected rejection');
+};
+
+test('headscale errors are classified by status with parsed body', async (): Promise<void> => {
+  const cases: Array<[number, new (...args: never[]) => HeadscaleError, string]> = [
+    [401, HeadscaleAuthError, 'HEADSCALE_UNAUTHORIZED'],
+    [403, HeadscaleAuthError, 'HEADSCALE_UNAUTHORIZED'],
+    [404, HeadscaleNotFoundError, 'HEADSCALE_NOT_FOUND'],
+    [409, HeadscaleConflictError, 'HEADSCALE_CONFLICT'],
+    [400, HeadscaleValidationError, 'HEADSCALE_INVALID_REQUEST'],
+    [500, HeadscaleServerError, 'HEADSCALE_SERVER_ERROR'],
+    [503, HeadscaleNetworkError, 'HEADSCALE_UNAVAILABLE'],
+  ];
+
+  for (const [status, type, code] of cases) {
+    const client = createClient(
+      async () => new Response(JSON.stringify({ code: 5, message: 'node not found' }), { status }),
+    );
+    const error = await captureError(() => client.getNode('9'));
+
+    expect(error instanceof type).toBe(true);
+    const typed = error as HeadscaleError;
+    expect(typed.code).toBe(code);
+    expect(typed.status).toBe(status);
+    expect(typed.path).toBe('/api/v1/node/9');
+    expect(typed.body).toEqual({ code: 5, message: 'node not found' });
+    expect(typed.message).toBe(`Headscale request failed: /api/v1/node/9 -> ${status} (node not found)`);
+  }
+});
+
+test('headscale fetch failures become network errors', async (): Promise<void> => {
+  const refused = createClient(async () => {
+    throw new TypeError('connection refused');
+  });
+  const refusedError = (await captureError(() => refused.listUsers())) as HeadscaleNetworkError;
+  expect(refusedError instanceof HeadscaleNetworkError).toBe(true);
+  expect(refusedError.timedOut).toBe(false);
+  expect(refusedError.status).toBe(null);
+
+  const timedOut = createClient(async () => {
+    throw new DOMException('The operation timed out.', 'TimeoutError');
+  });
+  const timeoutError = (await captureError(() => timedOut.listUsers())) as HeadscaleNetworkError;
+  expect(timeoutError.timedOut).toBe(true);
+  expect(timeoutError.message).toBe('Headscale request timed out: /api/v1/user');
+});
+
+test('headscale malformed success payloads become decode errors', async (): Promise<void> => {
+  const client = createClient(async () => new Response(JSON.stringify({ node: { id: '1' } }), { status: 200 }));
+  const error = (await captureError(() => client.getNode('1'))) as HeadscaleDecodeError;
+
+  expect(error instanceof HeadscaleDecodeError).toBe(true);
+  expect(error.code).toBe('HEADSCALE_DECODE_ERROR');
+  expect(error.body).toEqual({ node: { id: '1' } });
+});
+
+test('invoke errors keep plugin and headscale codes', (): void => {
+  expect(toInvokeError(new PluginError('INVALID_PARAMS', 'bad input'))).toEqual({
+    code: 'INVALID_PARAMS',
+    message: 'bad input',
+  });
+  expect(toInvokeError(new HeadscaleAuthError('denied', { path: '/api/v1/user', status: 401 })).code).toBe(
+    'HEADSCALE_UNAUTHORIZED',
+  );
+  expect(toInvokeError(new Error('boom'))).toEqual({ code: 'INTERNAL_ERROR', message: 'boom' });
+});
@@ -1,12 +1,95 @@
 import { expect, test } from 'bun:test';
-import { createHeadscaleManager, type HeadscaleProcess } from '../src/headscale-manager';
+import type { HeadscaleClient } from '../src/headscale-client';
+import {
+  createHeadscaleManager,
+  HeadscaleStartupError,
+  type HeadscaleOutputStream,
+  type HeadscaleProcess,
+} from '../src/headscale-manager';
+
+const createClient = (overrides: Partial<HeadscaleClient> = {}): HeadscaleClient => {
+  const unexpected = async (): Promise<never> => {
+    throw new Error('unexpected client call');
+  };
+
+  return {
+    probeVersion: async () => ({ compatible: true, version: 'v0.24.1' }),
+    healthCheck: async () => true,
+    listUsers: unexpected,
+    createUser: unexpected,
+    renameUser: unexpected,
+    deleteUser: unexpected,
+    listNodes: unexpected,
+    getNode: unexpected,
+    registerNode: unexpected,
+    renameNode: unexpected,
+    expireNode: unexpected,
+    deleteNode: unexpected,
+    moveNode: unexpected,
+    setNodeTags: unexpected,
+    createAuthKey: unexpected,
+    listAuthKeys: unexpected,
+    expireAuthKey: unexpected,
+    createApiKey: unexpected,
+    listApiKeys: unexpected,
+    expireApiKey: unexpected,
+    listRoutes: unexpected,
+    listNodeRoutes: unexpected,
+    enableRoute: unexpected,
+    disableRoute: unexpected,
+    deleteRoute: unexpected,
+    getPolicy: async () => ({ policy: '', updatedAt: null }),
+    updateAcl: async () => {},
+    withTimeout: () => createClient(overrides),
+    unguarded: () => createClient(overrides),
+    getCircuitState: () => ({ state: 'closed', consecutiveFailures: 0, openedAt: null, nextAttemptAt: null }),
+    ...overrides,
+  };
+};
+
+const createTimers = (): {
+  setTimer: (handler: () => void, ms: number) => unknown;
+  clearTimer: (handle: unknown) => void;
+  delays: number[];
+  flush: () => void;
+} => {
+  const pending = new Map<number, () => void>();
+  const delays: number[] = [];
+  let nextId = 1;
+
+  return {
+    setTimer: (handler, ms) => {
+      const id = nextId;
+      nextId += 1;
+      pending.set(id, handler);
+      delays.push(ms);
+      return id;
+    },
+    clearTimer: (handle) => {
+      pending.delete(handle as number);
+    },
+    delays,
+    flush: () => {
+      const handlers = [...pending.values()];
+      pending.clear();
+      for (const handler of handlers) {
+        handler();
+      }
+    },
+  };
+};
+
+// 自动重启经过异步就绪门控；让出一次宏任务，使重启流程跑完。
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
 
 const createProcess = (): {
   process: HeadscaleProcess;
-  emitExit: (code: number | null) => void;
+  emitExit: (code: number | null, signal?: string | null) => void;
+  emitOutput: (stream: HeadscaleOutputStream, line: string) => void;
   signals: string[];
 } => {
-  let exitHandler: ((code: number | null) => void) | null = null;
+  let exitHandler: ((code: number | null, signal?: string | null) => void) | null = null;
+  let outputHandler: ((stream: HeadscaleOutputStream, line: string) => void) | null = null;
   const signals: string[] = [];
 
   return {
@@ -18,9 +101,15 @@ const createProcess = (): {
       onExit: (handler) => {
         exitHandler = handler;
       },
+      onOutput: (handler) => {
+        outputHandler = handler;
+      },
+    },
+    emitExit: (code, signal) => {
+      exitHandler?.(code, signal);
     },
-    emitExit: (code) => {
-      exitHandler?.(code);
+    emitOutput: (stream, line) => {
+      outputHandler?.(stream, line);
     },
     signals,
   };
@@ -39,15 +128,10 @@ test('headscale manager starts and probes compatible version', async (): Promise
       spawned.push('spawned');
       return runtime.process;
     },
-    client: {
-      probeVersion: async () => ({ compatible: true, version: 'v0.24.1' }),
-      healthCheck: async () => true,
-      createAuthKey: async () => ({}),
-      listMachines: async () => [],
-      updateAcl: async () => ({}),
-    },
+    client: createClient(),
   });
 
+  expect(manager.getStatus().compatible).toBe(null);
   const status = await manager.start();
   expect(spawned).toHaveLength(1);
   expect(status.running).toBe(true);
@@ -61,20 +145,116 @@ test('headscale manager refuses incompatible version', async (): Promise<void> =
     apiUrl: 'http://localhost:8079',
     apiKey: 'test-key',
     processFactory: () => createProcess().process,
-    client: {
+    client: createClient({
       probeVersion: async () => ({ compatible: false, version: 'v0.23.0' }),
-      healthCheck: async () => true,
-      createAuthKey: async () => ({}),
-      listMachines: async () => [],
-      updateAcl: async () => ({}),
-    },
+    }),
   });
 
   await expect(manager.start()).rejects.toThrow('Incompatible Headscale version');
 });
 
+test('headscale manager spawns before probing readiness', async (): Promise<void> => {
+  const events: string[] = [];
+  let healthChecks = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => {
+      events.push('spawn');
+      return createProcess().process;
+    },
+    client: createClient({
+      healthCheck: async () => {
+        healthChecks += 1;
+        events.push('health');
+        return healthChecks >= 3;
+      },
+      probeVersion: async () => {
+        events.push('version');
+        return { compatible: true, version: 'v0.25.0' };
+      },
+    }),
+    sleep: async () => {
+      events.push('sleep');
+    },
+  });
+
+  const status = await manager.start();
+  expect(events).toEqual(['spawn', 'health', 'sleep', 'health', 'sleep', 'health', 'version']);
+  expect(status.phase).toBe('running');
+  expect(status.version).toBe('v0.25.0');
+});
+
+test('headscale manager kills the child when readiness deadline expires', async (): Promise<void> => {
+  const runtime = createProcess();
+  let currentTs = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    startupTimeoutMs: 1_000,
+    readinessIntervalMs: 400,
+    processFactory: () => runtime.process,
+    client: createClient({
+      healthCheck: async () => false,
+    }),
+    now: () => currentTs,
+    sleep: async (ms) => {
+      currentTs += ms;
+    },
+  });
+
+  const pending = manager.start();
+  runtime.emitOutput('stderr', 'FTL cannot bind 0.0.0.0:8080');
+  runtime.emitOutput('stdout', 'ignored');
+
+  let failure: unknown = null;
+  try {
+    await pending;
+  } catch (error) {
+    failure = error;
+  }
+
+  expect(failure instanceof HeadscaleStartupError).toBe(true);
+  const startupError = failure as HeadscaleStartupError;
+  expect(startupError.reason).toBe('timeout');
+  expect(startupError.stderr).toEqual(['FTL cannot bind 0.0.0.0:8080']);
+  expect(startupError.message).toContain('Headscale failed to become ready within 1000ms');
+  expect(startupError.message).toContain('FTL cannot bind 0.0.0.0:8080');
+  expect(runtime.signals).toEqual(['SIGKILL']);
+  expect(manager.getStatus().phase).toBe('stopped');
+});
+
+test('headscale manager fails startup when the child exits early', async (): Promise<void> => {
+  const runtime = createProcess();
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => runtime.process,
+    client: createClient({
+      healthCheck: async () => false,
+    }),
+    sleep: async () => {
+      runtime.emitExit(1);
+    },
+  });
+
+  await expect(manager.start()).rejects.toThrow('Headscale exited during startup (code=1 signal=null)');
+  expect(manager.getStatus().phase).toBe('stopped');
+  expect(manager.getStatus().restartCount).toBe(0);
+});
+
 test('headscale manager restarts up to max restarts', async (): Promise<void> => {
   const runtimes = [createProcess(), createProcess(), createProcess(), createProcess()];
+  const timers = createTimers();
   let index = 0;
 
   const manager = createHeadscaleManager({
@@ -88,46 +268,299 @@ test('headscale manager restarts up to max restarts', async (): Promise<void> =>
       index += 1;
       return runtime.process;
     },
-    client: {
-      probeVersion: async () => ({ compatible: true, version: 'v0.24.1' }),
-      healthCheck: async () => true,
-      createAuthKey: async () => ({}),
-      listMachines: async () => [],
-      updateAcl: async () => ({}),
-    },
+    client: createClient(),
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
   });
 
   await manager.start();
   runtimes[0].emitExit(1);
+  timers.flush();
+  await settle();
   runtimes[1].emitExit(1);
+  timers.flush();
+  await settle();
   runtimes[2].emitExit(1);
+  timers.flush();
+  await settle();
   runtimes[3].emitExit(1);
+  timers.flush();
 
   expect(manager.getStatus().restartCount).toBe(3);
+  expect(manager.getStatus().phase).toBe('crash-looping');
+  expect(manager.getStatus().lastExit?.code).toBe(1);
+  expect(index).toBe(4);
+});
+
+test('headscale manager backs off exponentially between restarts', async (): Promise<void> => {
+  const runtimes = [createProcess(), createProcess(), createProcess()];
+  const timers = createTimers();
+  let index = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    maxRestarts: 5,
+    restartBackoff: { initialDelayMs: 100, maxDelayMs: 150, multiplier: 2 },
+    processFactory: () => {
+      const runtime = runtimes[index] ?? runtimes[runtimes.length - 1];
+      index += 1;
+      return runtime.process;
+    },
+    client: createClient(),
+    now: () => 1_000,
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  runtimes[0].emitExit(null, 'SIGSEGV');
+  expect(manager.getStatus().phase).toBe('backoff');
+  expect(manager.getStatus().nextRestartAt).toBe(1_100);
+  expect(manager.getStatus().lastExit).toEqual({ code: null, signal: 'SIGSEGV', at: 1_000 });
+  expect(index).toBe(1);
+
+  timers.flush();
+  expect(manager.getStatus().phase).toBe('starting');
+  await settle();
+  expect(manager.getStatus().phase).toBe('running');
+  runtimes[1].emitExit(2);
+  timers.flush();
+
+  expect(timers.delays).toEqual([100, 150]);
+  expect(manager.getStatus().restartsInWindow).toBe(2);
+});
+
+test('headscale manager restores restart budget after stable uptime', async (): Promise<void> => {
+  const runtimes = [createProcess(), createProcess(), createProcess()];
+  const timers = createTimers();
+  let currentTs = 0;
+  let index = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    maxRestarts: 1,
+    restartWindowMs: 60_000,
+    processFactory: () => {
+      const runtime = runtimes[index] ?? runtimes[runtimes.length - 1];
+      index += 1;
+      return runtime.process;
+    },
+    client: createClient(),
+    now: () => currentTs,
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  runtimes[0].emitExit(1);
+  timers.flush();
+  await settle();
+
+  currentTs = 61_000;
+  runtimes[1].emitExit(1);
+  expect(manager.getStatus().phase).toBe('backoff');
+  timers.flush();
+  await settle();
+
+  expect(manager.getStatus().phase).toBe('running');
+  expect(manager.getStatus().restartCount).toBe(2);
+  expect(manager.getStatus().restartsInWindow).toBe(1);
 });
 
-test('headscale manager reload sends SIGHUP', async (): Promise<void> => {
+test('headscale manager never respawns after intentional stop', async (): Promise<void> => {
   const runtime = createProcess();
+  const timers = createTimers();
+  let spawned = 0;
 
   const manager = createHeadscaleManager({
     binaryPath: 'headscale',
     configPath: '/tmp/headscale.yaml',
     apiUrl: 'http://localhost:8079',
     apiKey: 'test-key',
+    processFactory: () => {
+      spawned += 1;
+      return runtime.process;
+    },
+    client: createClient(),
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  const stopping = manager.stop();
+  runtime.emitExit(0, 'SIGTERM');
+  timers.flush();
+  const result = await stopping;
+
+  expect(spawned).toBe(1);
+  expect(result.forced).toBe(false);
+  expect(result.exit?.signal).toBe('SIGTERM');
+  expect(manager.getStatus().phase).toBe('stopped');
+  expect(manager.getStatus().lastExit?.signal).toBe('SIGTERM');
+});
+
+test('headscale manager cancels a pending restart on stop', async (): Promise<void> => {
+  const runtime = createProcess();
+  const timers = createTimers();
+  let spawned = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => {
+      spawned += 1;
+      return runtime.process;
+    },
+    client: createClient(),
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  runtime.emitExit(1);
+  const result = await manager.stop();
+  timers.flush();
+
+  expect(result).toEqual({ exit: null, forced: false });
+  expect(spawned).toBe(1);
+  expect(manager.getStatus().phase).toBe('stopped');
+});
+
+test('headscale manager escalates to SIGKILL after the grace period', async (): Promise<void> => {
+  const runtime = createProcess();
+  const timers = createTimers();
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    stopGracePeriodMs: 2_000,
     processFactory: () => runtime.process,
-    client: {
-      probeVersion: async () => ({ compatible: true, version: 'v0.24.1' }),
-      healthCheck: async () => true,
-      createAuthKey: async () => ({}),
-      listMachines: async () => [],
-      updateAcl: async () => ({}),
+    client: createClient(),
+    now: () => 500,
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  const stopping = manager.stop();
+  expect(manager.getStatus().phase).toBe('stopping');
+  expect(runtime.signals).toEqual(['SIGTERM']);
+
+  timers.flush();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(runtime.signals).toEqual(['SIGTERM', 'SIGKILL']);
+
+  runtime.emitExit(null, 'SIGKILL');
+  expect(await stopping).toEqual({ exit: { code: null, signal: 'SIGKILL', at: 500 }, forced: true });
+  expect(timers.delays[0]).toBe(2_000);
+  expect(manager.getStatus().phase).toBe('stopped');
+});
+
+test('headscale manager routes automatic restarts through the version gate', async (): Promise<void> => {
+  const runtimes = [createProcess(), createProcess()];
+  const timers = createTimers();
+  const versions = ['v0.24.1', 'v0.19.0'];
+  let index = 0;
+  let probes = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => {
+      const runtime = runtimes[index] ?? runtimes[runtimes.length - 1];
+      index += 1;
+      return runtime.process;
     },
+    client: createClient({
+      probeVersion: async () => {
+        const version = versions[probes] ?? 'v0.19.0';
+        probes += 1;
+        return { compatible: version === 'v0.24.1', version };
+      },
+    }),
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
   });
 
   await manager.start();
-  manager.reloadConfig();
-  manager.stop();
+  runtimes[0].emitExit(1);
+  timers.flush();
+  expect(manager.getStatus().running).toBe(false);
+  await settle();
+
+  expect(probes).toBe(2);
+  expect(manager.getStatus().phase).toBe('stopped');
+  expect(manager.getStatus().running).toBe(false);
+  expect(manager.getStatus().compatible).toBe(false);
+  expect(runtimes[1].signals).toEqual(['SIGKILL']);
+  expect(timers.delays).toHaveLength(1);
+});
+
+test('headscale manager restores running after a successful health check', async (): Promise<void> => {
+  let healthy = true;
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => createProcess().process,
+    client: createClient({ healthCheck: async () => healthy }),
+  });
+
+  await manager.start();
+  healthy = false;
+  expect(await manager.healthCheck()).toBe(false);
+  expect(manager.getStatus().running).toBe(false);
+
+  healthy = true;
+  expect(await manager.healthCheck()).toBe(true);
+  expect(manager.getStatus().running).toBe(true);
+});
+
+test('headscale manager waits for a pending stop before starting again', async (): Promise<void> => {
+  const runtimes = [createProcess(), createProcess()];
+  const timers = createTimers();
+  let index = 0;
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    processFactory: () => {
+      const runtime = runtimes[index] ?? runtimes[runtimes.length - 1];
+      index += 1;
+      return runtime.process;
+    },
+    client: createClient(),
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+  });
+
+  await manager.start();
+  const stopping = manager.stop();
+  const starting = manager.start();
+  await settle();
+  expect(index).toBe(1);
+  expect(manager.getStatus().phase).toBe('stopping');
+
+  runtimes[0].emitExit(0, 'SIGTERM');
+  await stopping;
+  const status = await starting;
 
-  expect(runtime.signals).toContain('SIGHUP');
-  expect(runtime.signals).toContain('SIGTERM');
+  expect(index).toBe(2);
+  expect(status.phase).toBe('running');
+  expect(runtimes[0].signals).toEqual(['SIGTERM']);
 });
@@ -0,0 +1,95 @@
+import { expect, test } from 'bun:test';
+import { createLogBuffer, parseLogLine, type HeadscaleLogEntry } from '../src/headscale-logs';
+import { createHeadscaleManager, type HeadscaleOutputStream } from '../src/headscale-manager';
+import { createHeadscaleClient } from '../src/headscale-client';
+
+test('log parser reads zerolog JSON lines', (): void => {
+  const parsed = parseLogLine(
+    '{"level":"warn","time":"2025-01-01T00:00:00Z","message":"node expired","node":"edge-1","id":7}',
+  );
+
+  expect(parsed).toEqual({
+    level: 'warn',
+    message: 'node expired',
+    fields: { time: '2025-01-01T00:00:00Z', node: 'edge-1', id: 7 },
+  });
+});
+
+test('log parser reads zerolog console lines with colors and fields', (): void => {
+  const parsed = parseLogLine(
+    '\u001b[90m2025-01-01T00:00:00Z\u001b[0m \u001b[31mERR\u001b[0m listening failed addr=0.0.0.0:8080 error="address in use"',
+  );
+
+  expect(parsed).toEqual({
+    level: 'error',
+    message: 'listening failed',
+    fields: { time: '2025-01-01T00:00:00Z', addr: '0.0.0.0:8080', error: 'address in use' },
+  });
+});
+
+test('log parser keeps unrecognized lines verbatim', (): void => {
+  expect(parseLogLine('plain text output')).toEqual({ level: 'info', message: 'plain text output', fields: {} });
+});
+
+test('log buffer is bounded and filters by level and tail', (): void => {
+  const buffer = createLogBuffer(3);
+  const levels = ['debug', 'info', 'warn', 'error'] as const;
+  for (const level of levels) {
+    buffer.append({ level, message: level, fields: {}, stream: 'stderr', timestamp: 0 });
+  }
+
+  expect(buffer.size()).toBe(3);
+  expect(buffer.query().map((entry) => entry.message)).toEqual(['info', 'warn', 'error']);
+  expect(buffer.query({ level: 'warn' }).map((entry) => entry.message)).toEqual(['warn', 'error']);
+  expect(buffer.query({ tail: 1 }).map((entry) => entry.seq)).toEqual([4]);
+});
+
+test('headscale manager captures sidecar output into logs', async (): Promise<void> => {
+  let outputHandler: ((stream: HeadscaleOutputStream, line: string) => void) | null = null;
+  const forwarded: HeadscaleLogEntry[] = [];
+
+  const manager = createHeadscaleManager({
+    binaryPath: 'headscale',
+    configPath: '/tmp/headscale.yaml',
+    apiUrl: 'http://localhost:8079',
+    apiKey: 'test-key',
+    client: createHeadscaleClient({
+      baseUrl: 'http://localhost:8079',
+      apiKey: 'test-key',
+      fetcher: async (input) =>
+        new Response(input.endsWith('/api/v1/version') ? JSON.stringify({ version: 'v0.24.1' }) : '', {
+          status: 200,
+        }),
+    }),
+    processFactory: () => ({
+      pid: 1,
+      kill: () => {},
+      onExit: () => {},
+      onOutput: (handler) => {
+        outputHandler = handler;
+      },
+    }),
+    now: () => 42,
+    onLog: (entry) => {
+      forwarded.push(entry);
+    },
+  });
+
+  await manager.start();
+  outputHandler!('stderr', '2025-01-01T00:00:00Z INF listening addr=:8080');
+  outputHandler!('stdout', '');
+  outputHandler!('stdout', '{"level":"debug","message":"poll"}');
+
+  expect(forwarded).toHaveLength(2);
+  expect(manager.getLogs({ level: 'info' })).toEqual([
+    {
+      level: 'info',
+      message: 'listening',
+      fields: { time: '2025-01-01T00:00:00Z', addr: ':8080' },
+      timestamp: 42,
+      stream: 'stderr',
+      seq: 1,
+    },
+  ]);
+  expect(manager.getLogs({ tail: 1 })[0]?.stream).toBe('stdout');
+});
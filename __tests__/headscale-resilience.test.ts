@@ -0,0 +1,163 @@
+import { expect, test } from 'bun:test';
+import { createCircuitBreaker } from '../src/circuit-breaker';
+import { createHeadscaleClient } from '../src/headscale-client';
+import { HeadscaleCircuitOpenError, HeadscaleNetworkError } from '../src/headscale-errors';
+
+const captureError = async (run: () => Promise<unknown>): Promise<unknown> => {
+  try {
+    await run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected rejection');
+};
+
+test('headscale client retries idempotent GETs with jittered backoff', async (): Promise<void> => {
+  const delays: number[] = [];
+  let calls = 0;
+
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1_000 },
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    random: () => 1,
+    fetcher: async () => {
+      calls += 1;
+      return calls < 3
+        ? new Response('', { status: 503 })
+        : new Response(JSON.stringify({ users: [] }), { status: 200 });
+    },
+  });
+
+  expect(await client.listUsers()).toEqual([]);
+  expect(calls).toBe(3);
+  expect(delays).toEqual([100, 200]);
+});
+
+test('headscale client stops retrying once the call budget cannot cover the next backoff', async (): Promise<void> => {
+  const delays: number[] = [];
+  let currentTs = 0;
+  let calls = 0;
+
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    timeoutMs: 1_000,
+    retry: { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1_000 },
+    now: () => currentTs,
+    sleep: async (ms) => {
+      delays.push(ms);
+      currentTs += ms;
+    },
+    random: () => 1,
+    fetcher: async () => {
+      calls += 1;
+      currentTs += 300;
+      return new Response('', { status: 503 });
+    },
+  });
+
+  await expect(client.listUsers()).rejects.toThrow('/api/v1/user -> 503');
+  expect(calls).toBe(3);
+  expect(delays).toEqual([100, 200]);
+});
+
+test('headscale client never retries mutating requests', async (): Promise<void> => {
+  let calls = 0;
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    sleep: async () => {},
+    fetcher: async () => {
+      calls += 1;
+      return new Response('', { status: 503 });
+    },
+  });
+
+  await expect(client.createAuthKey({ user: 'meristem' })).rejects.toThrow('/api/v1/preauthkey -> 503');
+  expect(calls).toBe(1);
+});
+
+test('headscale client aborts hung requests after the timeout', async (): Promise<void> => {
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    timeoutMs: 5_000,
+    retry: { maxAttempts: 1 },
+    fetcher: (_input, init) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      }),
+  });
+
+  const error = (await captureError(() => client.withTimeout(20).listUsers())) as HeadscaleNetworkError;
+  expect(error instanceof HeadscaleNetworkError).toBe(true);
+  expect(error.timedOut).toBe(true);
+});
+
+test('headscale client opens the circuit after repeated failures', async (): Promise<void> => {
+  let currentTs = 0;
+  let calls = 0;
+  let healthy = false;
+
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    retry: { maxAttempts: 1 },
+    circuit: { failureThreshold: 2, resetTimeoutMs: 1_000 },
+    now: () => currentTs,
+    fetcher: async () => {
+      calls += 1;
+      if (!healthy) {
+        throw new TypeError('connection refused');
+      }
+      return new Response(JSON.stringify({ users: [] }), { status: 200 });
+    },
+  });
+
+  await captureError(() => client.listUsers());
+  await captureError(() => client.listUsers());
+  expect(client.getCircuitState().state).toBe('open');
+
+  const shortCircuited = await captureError(() => client.listUsers());
+  expect(shortCircuited instanceof HeadscaleCircuitOpenError).toBe(true);
+  expect(calls).toBe(2);
+
+  healthy = true;
+  currentTs = 1_000;
+  expect(await client.listUsers()).toEqual([]);
+  expect(client.getCircuitState().state).toBe('closed');
+});
+
+test('headscale client does not count client errors toward the circuit', async (): Promise<void> => {
+  const client = createHeadscaleClient({
+    baseUrl: 'http://hs.local',
+    apiKey: 'secret',
+    circuit: { failureThreshold: 1 },
+    fetcher: async () => new Response(JSON.stringify({ message: 'not found' }), { status: 404 }),
+  });
+
+  await captureError(() => client.getNode('1'));
+  expect(client.getCircuitState().state).toBe('closed');
+});
+
+test('circuit breaker reopens when the half-open trial fails', (): void => {
+  let currentTs = 0;
+  const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 100, now: () => currentTs });
+
+  expect(breaker.tryAcquire()).toBe(true);
+  breaker.recordFailure();
+  expect(breaker.getSnapshot()).toEqual({ state: 'open', consecutiveFailures: 1, openedAt: 0, nextAttemptAt: 100 });
+
+  currentTs = 100;
+  expect(breaker.tryAcquire()).toBe(true);
+  expect(breaker.getSnapshot().state).toBe('half-open');
+  expect(breaker.tryAcquire()).toBe(false);
+
+  breaker.recordFailure();
+  expect(breaker.getSnapshot().state).toBe('open');
+  expect(breaker.getSnapshot().openedAt).toBe(100);
+});
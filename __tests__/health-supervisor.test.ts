@@ -0,0 +1,131 @@
+import { expect, test } from 'bun:test';
+import { createHealthSupervisor, type HealthReport } from '../src/health-supervisor';
+
+const createSupervisor = (results: boolean[], currentTs: { value: number }) => {
+  const reports: Array<HealthReport<{ probe: number }>> = [];
+  let probes = 0;
+
+  const supervisor = createHealthSupervisor({
+    check: async () => {
+      const result = results[probes] ?? true;
+      probes += 1;
+      return result;
+    },
+    describe: () => ({ probe: probes }),
+    onReport: (report) => {
+      reports.push(report);
+    },
+    intervalMs: 10,
+    heartbeatIntervalMs: 1_000,
+    unhealthyThreshold: 3,
+    recoveryThreshold: 2,
+    now: () => currentTs.value,
+    setTimer: () => 1,
+    clearTimer: () => {},
+  });
+
+  return { supervisor, reports };
+};
+
+test('health supervisor reports initial state on start', async (): Promise<void> => {
+  const { supervisor, reports } = createSupervisor([], { value: 0 });
+
+  await supervisor.start();
+  expect(reports).toEqual([
+    {
+      status: 'healthy',
+      previous: null,
+      reason: 'transition',
+      consecutiveFailures: 0,
+      consecutiveSuccesses: 0,
+      details: { probe: 0 },
+    },
+  ]);
+});
+
+test('health supervisor applies hysteresis on failures and recovery', async (): Promise<void> => {
+  const { supervisor, reports } = createSupervisor([false, false, false, true, true], { value: 0 });
+  await supervisor.start();
+
+  const observed: string[] = [];
+  for (let index = 0; index < 5; index += 1) {
+    observed.push(await supervisor.tick());
+  }
+
+  expect(observed).toEqual(['degraded', 'degraded', 'unhealthy', 'unhealthy', 'healthy']);
+  expect(reports.slice(1).map((report) => `${report.previous}->${report.status}`)).toEqual([
+    'healthy->degraded',
+    'degraded->unhealthy',
+    'unhealthy->healthy',
+  ]);
+  expect(reports[2]?.consecutiveFailures).toBe(3);
+  expect(reports[3]?.details).toEqual({ probe: 5 });
+});
+
+test('health supervisor treats a throwing check as failure', async (): Promise<void> => {
+  const reports: Array<HealthReport<null>> = [];
+  const supervisor = createHealthSupervisor({
+    check: async () => {
+      throw new Error('boom');
+    },
+    describe: () => null,
+    onReport: (report) => {
+      reports.push(report);
+    },
+    setTimer: () => 1,
+    clearTimer: () => {},
+  });
+
+  await supervisor.start();
+  expect(await supervisor.tick()).toBe('degraded');
+});
+
+test('health supervisor emits heartbeats while status is stable', async (): Promise<void> => {
+  const currentTs = { value: 0 };
+  const { supervisor, reports } = createSupervisor([], currentTs);
+  await supervisor.start();
+
+  currentTs.value = 500;
+  await supervisor.tick();
+  expect(reports).toHaveLength(1);
+
+  currentTs.value = 1_000;
+  await supervisor.tick();
+  expect(reports).toHaveLength(2);
+  expect(reports[1]?.reason).toBe('heartbeat');
+  expect(reports[1]?.previous).toBe(null);
+});
+
+test('health supervisor schedules ticks until stopped', async (): Promise<void> => {
+  const scheduled: Array<() => void> = [];
+  const cleared: unknown[] = [];
+  let checks = 0;
+
+  const supervisor = createHealthSupervisor({
+    check: async () => {
+      checks += 1;
+      return true;
+    },
+    describe: () => null,
+    onReport: () => {},
+    intervalMs: 25,
+    setTimer: (handler) => {
+      scheduled.push(handler);
+      return scheduled.length;
+    },
+    clearTimer: (handle) => {
+      cleared.push(handle);
+    },
+  });
+
+  await supervisor.start();
+  expect(scheduled).toHaveLength(1);
+
+  scheduled[0]?.();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(checks).toBe(1);
+  expect(scheduled).toHaveLength(2);
+
+  supervisor.stop();
+  expect(cleared).toEqual([2]);
+});
@@ -0,0 +1,198 @@
+import { expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectModeReasons,
+  collectSwitchBlockers,
+  createNetworkModeTracker,
+  readDesiredMode,
+  writeDesiredMode,
+  type NetworkModeTransition,
+} from '../src/network-mode';
+
+const ready = { started: true, headscaleHealthy: true, headscaleCompatible: true, derpRegionCount: 2 } as const;
+
+const createTimers = () => {
+  const pending = new Map<number, () => void>();
+  let nextId = 0;
+
+  return {
+    setTimer: (handler: () => void): unknown => {
+      nextId += 1;
+      pending.set(nextId, handler);
+      return nextId;
+    },
+    clearTimer: (handle: unknown): void => {
+      pending.delete(handle as number);
+    },
+    size: (): number => pending.size,
+    flush: (): void => {
+      const handlers = [...pending.values()];
+      pending.clear();
+      for (const handler of handlers) {
+        handler();
+      }
+    },
+  };
+};
+
+test('mode reasons are ordered by priority', (): void => {
+  expect(collectModeReasons(ready)).toEqual([]);
+  expect(
+    collectModeReasons({ started: false, headscaleHealthy: false, headscaleCompatible: true, derpRegionCount: null }),
+  ).toEqual(['plugin-stopped', 'headscale-down', 'derp-map-unavailable']);
+  expect(collectModeReasons({ ...ready, headscaleCompatible: false, headscaleHealthy: false })).toEqual([
+    'headscale-incompatible',
+  ]);
+  expect(collectModeReasons({ ...ready, derpRegionCount: 0 }, 'DIRECT')).toEqual(['desired-direct', 'derp-map-empty']);
+});
+
+test('a headscale that never became ready is reported down, not incompatible', (): void => {
+  const transitions: NetworkModeTransition[] = [];
+  const tracker = createNetworkModeTracker({ onTransition: (transition) => transitions.push(transition) });
+
+  tracker.evaluate({ ...ready, headscaleHealthy: false, headscaleCompatible: null });
+  tracker.evaluate({ ...ready, headscaleHealthy: false, headscaleCompatible: false });
+  expect(transitions.map((transition) => transition.reason)).toEqual(['headscale-down', 'headscale-incompatible']);
+});
+
+test('switch blockers only cover compatibility and DERP availability', (): void => {
+  expect(collectSwitchBlockers({ ...ready, started: false, headscaleHealthy: false })).toEqual([]);
+  // 尚未启动或启动失败时版本未知，只推迟切换而不拒绝。
+  expect(
+    collectSwitchBlockers({ ...ready, started: false, headscaleHealthy: false, headscaleCompatible: null }),
+  ).toEqual([]);
+  expect(collectSwitchBlockers({ ...ready, headscaleCompatible: false, derpRegionCount: 0 })).toEqual([
+    'headscale-incompatible',
+    'derp-map-empty',
+  ]);
+});
+
+test('mode tracker publishes only on transitions', (): void => {
+  let clock = 100;
+  const transitions: NetworkModeTransition[] = [];
+  const tracker = createNetworkModeTracker({
+    now: () => clock,
+    onTransition: (transition) => {
+      transitions.push(transition);
+    },
+  });
+
+  expect(tracker.getState()).toEqual({
+    desiredMode: 'M-NET',
+    mode: 'DIRECT',
+    reason: 'plugin-stopped',
+    reasons: ['plugin-stopped'],
+    since: 100,
+    pending: null,
+  });
+
+  clock = 200;
+  expect(tracker.evaluate(ready).mode).toBe('M-NET');
+  clock = 300;
+  tracker.evaluate(ready);
+  expect(transitions).toEqual([
+    {
+      desiredMode: 'M-NET',
+      previous: 'DIRECT',
+      next: 'M-NET',
+      previousReason: 'plugin-stopped',
+      reason: null,
+      reasons: [],
+      timestamp: 200,
+    },
+  ]);
+
+  tracker.evaluate({ ...ready, headscaleHealthy: false });
+  tracker.evaluate({ ...ready, headscaleHealthy: false, derpRegionCount: 0 });
+  expect(transitions.map((transition) => [transition.next, transition.reason])).toEqual([
+    ['M-NET', null],
+    ['DIRECT', 'headscale-down'],
+  ]);
+  expect(tracker.getState()).toEqual({
+    desiredMode: 'M-NET',
+    mode: 'DIRECT',
+    reason: 'headscale-down',
+    reasons: ['headscale-down', 'derp-map-empty'],
+    since: 300,
+    pending: null,
+  });
+});
+
+test('switching to DIRECT drains before the effective mode changes', (): void => {
+  let clock = 0;
+  const timers = createTimers();
+  const transitions: NetworkModeTransition[] = [];
+  const tracker = createNetworkModeTracker({
+    now: () => clock,
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+    onTransition: (transition) => {
+      transitions.push(transition);
+    },
+  });
+  tracker.evaluate(ready);
+
+  clock = 1_000;
+  const draining = tracker.setDesiredMode('DIRECT', ready, { drainTimeoutMs: 5_000 });
+  expect(draining).toEqual({
+    desiredMode: 'DIRECT',
+    mode: 'M-NET',
+    reason: null,
+    reasons: ['desired-direct'],
+    since: 0,
+    pending: { from: 'M-NET', to: 'DIRECT', startedAt: 1_000, deadline: 6_000 },
+  });
+  expect(transitions).toHaveLength(1);
+
+  clock = 6_000;
+  timers.flush();
+  expect(tracker.getState().mode).toBe('DIRECT');
+  expect(tracker.getState().pending).toBe(null);
+  expect(transitions.at(-1)).toEqual({
+    desiredMode: 'DIRECT',
+    previous: 'M-NET',
+    next: 'DIRECT',
+    previousReason: null,
+    reason: 'desired-direct',
+    reasons: ['desired-direct'],
+    timestamp: 6_000,
+  });
+
+  tracker.setDesiredMode('M-NET', ready);
+  expect(tracker.getState().mode).toBe('M-NET');
+});
+
+test('a failing precondition ends the drain immediately', (): void => {
+  const timers = createTimers();
+  const tracker = createNetworkModeTracker({
+    now: () => 0,
+    setTimer: timers.setTimer,
+    clearTimer: timers.clearTimer,
+    onTransition: () => {},
+  });
+  tracker.evaluate(ready);
+  tracker.setDesiredMode('DIRECT', ready, { drainTimeoutMs: 5_000 });
+
+  tracker.evaluate({ ...ready, headscaleHealthy: false });
+  expect(tracker.getState().mode).toBe('DIRECT');
+  expect(tracker.getState().pending).toBe(null);
+  expect(timers.size()).toBe(0);
+});
+
+test('desired mode persists across restarts', async (): Promise<void> => {
+  const dir = await mkdtemp(join(tmpdir(), 'mnet-mode-'));
+  const path = join(dir, 'network-mode.json');
+  try {
+    expect(await readDesiredMode(path)).toBe(null);
+    expect(await writeDesiredMode(path, 'DIRECT')).toBe(true);
+    expect(await writeDesiredMode(path, 'DIRECT')).toBe(false);
+    expect(await readDesiredMode(path)).toBe('DIRECT');
+
+    await writeFile(path, '{"desired_mode":"BOGUS"}');
+    expect(await readDesiredMode(path)).toBe(null);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
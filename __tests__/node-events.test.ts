@@ -0,0 +1,160 @@
+import { expect, test } from 'bun:test';
+import { createAuditLog } from '../src/audit-log';
+import { createHeadscaleClient } from '../src/headscale-client';
+import { createNodeEventHandler, nodeIdentityTag, type NodeAuditAction } from '../src/node-events';
+
+type Call = { method: string; path: string; body: unknown };
+
+const createFixture = (responses: Record<string, unknown>) => {
+  const calls: Call[] = [];
+  const timers = new Map<number, () => void>();
+  let nextTimer = 0;
+  const audit = createAuditLog<NodeAuditAction>({ now: () => 0 });
+
+  const client = createHeadscaleClient({
+    baseUrl: 'http://headscale.test',
+    apiKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    fetcher: async (input, init) => {
+      const path = input.replace('http://headscale.test', '');
+      const method = init?.method ?? 'GET';
+      calls.push({ method, path, body: init?.body ? JSON.parse(String(init.body)) : null });
+      return new Response(JSON.stringify(responses[`${method} ${path}`] ?? {}), { status: 200 });
+    },
+  });
+
+  const handler = createNodeEventHandler({
+    getClient: () => client,
+    audit,
+    user: 'meristem',
+    joinKeyTtlMs: 60_000,
+    offlineGraceMs: 30_000,
+    now: () => Date.parse('2025-01-01T00:00:00Z'),
+    setTimer: (handler) => {
+      nextTimer += 1;
+      timers.set(nextTimer, handler);
+      return nextTimer;
+    },
+    clearTimer: (handle) => {
+      timers.delete(handle as number);
+    },
+  });
+
+  const flush = async (): Promise<void> => {
+    const handlers = [...timers.values()];
+    timers.clear();
+    for (const run of handlers) {
+      run();
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  return { calls, audit, handler, timers, flush };
+};
+
+test('identity tags keep canonical ids and hash the rest injectively', (): void => {
+  expect(nodeIdentityTag('edge-01')).toBe('tag:meristem-edge-01');
+  expect(nodeIdentityTag('Edge_01.lab')).toBe('tag:meristem-edge-01-lab--ef2d010480c8bff2');
+
+  const tags = ['node-1', 'node_1', 'Node.1', 'node 1', 'node--1'].map(nodeIdentityTag);
+  expect(new Set(tags).size).toBe(5);
+  expect(tags.every((tag) => /^tag:[a-z0-9][a-z0-9-]*$/.test(tag))).toBe(true);
+});
+
+test('node.join issues a single-use ephemeral key tagged with the node identity', async (): Promise<void> => {
+  const fixture = createFixture({
+    'POST /api/v1/preauthkey': {
+      preAuthKey: {
+        id: '9',
+        key: 'secret',
+        user: 'meristem',
+        ephemeral: true,
+        expiration: '2025-01-01T00:01:00Z',
+        aclTags: ['tag:meristem-edge-1'],
+      },
+    },
+  });
+
+  await fixture.handler.handle('node.join', 'edge-1');
+
+  expect(fixture.calls[0]).toEqual({
+    method: 'POST',
+    path: '/api/v1/preauthkey',
+    body: {
+      user: 'meristem',
+      reusable: false,
+      ephemeral: true,
+      expiration: '2025-01-01T00:01:00.000Z',
+      aclTags: ['tag:meristem-edge-1'],
+    },
+  });
+  expect(fixture.audit.query().map((record) => [record.action, record.subject, record.detail.keyId])).toEqual([
+    ['authkey.issued', 'edge-1', '9'],
+  ]);
+  expect(JSON.stringify(fixture.audit.query()).includes('secret')).toBe(false);
+  expect(fixture.handler.takeJoinKey('edge-1')?.key).toBe('secret');
+  expect(fixture.handler.takeJoinKey('edge-1')).toBe(null);
+});
+
+test('node.offline expires the tagged headscale node after the grace period', async (): Promise<void> => {
+  const fixture = createFixture({
+    'GET /api/v1/node': {
+      nodes: [
+        { id: '3', name: 'edge-1', forced_tags: ['tag:meristem-edge-1'] },
+        { id: '4', name: 'edge-2', valid_tags: ['tag:meristem-edge-2'] },
+      ],
+    },
+    'POST /api/v1/node/3/expire': { node: { id: '3', name: 'edge-1' } },
+  });
+
+  await fixture.handler.handle('node.offline', 'edge-1');
+  expect(fixture.calls).toHaveLength(0);
+  expect(fixture.handler.pendingExpiries()).toEqual(['edge-1']);
+
+  await fixture.flush();
+  expect(fixture.calls.map((call) => `${call.method} ${call.path}`)).toEqual([
+    'GET /api/v1/node',
+    'POST /api/v1/node/3/expire',
+  ]);
+  expect(fixture.audit.query({ subject: 'edge-1' }).map((record) => record.action)).toEqual([
+    'expire.scheduled',
+    'node.expired',
+  ]);
+});
+
+test('rejoining within the grace period cancels the pending expiry', async (): Promise<void> => {
+  const fixture = createFixture({});
+
+  await fixture.handler.handle('node.offline', 'edge-1');
+  await fixture.handler.handle('node.join', 'edge-1');
+
+  expect(fixture.timers.size).toBe(0);
+  expect(fixture.audit.query().map((record) => record.action)).toEqual([
+    'expire.scheduled',
+    'expire.cancelled',
+    'authkey.failed',
+  ]);
+});
+
+test('node.offline expires a join key that was never collected', async (): Promise<void> => {
+  const fixture = createFixture({
+    'POST /api/v1/preauthkey': {
+      preAuthKey: { id: '9', key: 'secret', user: 'meristem', expiration: '2025-01-01T00:01:00Z' },
+    },
+  });
+
+  await fixture.handler.handle('node.join', 'edge-1');
+  await fixture.handler.handle('node.offline', 'edge-1');
+
+  expect(fixture.calls.map((call) => `${call.method} ${call.path}`)).toEqual([
+    'POST /api/v1/preauthkey',
+    'POST /api/v1/preauthkey/expire',
+  ]);
+  expect(fixture.calls[1]?.body).toEqual({ user: 'meristem', key: 'secret' });
+  expect(fixture.handler.takeJoinKey('edge-1')).toBe(null);
+  expect(fixture.audit.query().map((record) => record.action)).toEqual([
+    'authkey.issued',
+    'expire.scheduled',
+    'authkey.expired',
+  ]);
+});
@@ -0,0 +1,65 @@
+import { expect, test } from 'bun:test';
+import { decodeNode } from '../src/headscale-types';
+import { nodeIdentityTag } from '../src/node-events';
+import { createMeristemIdResolver, queryInventory, toInventoryNode } from '../src/node-inventory';
+
+const resolve = createMeristemIdResolver(['Edge_01'], nodeIdentityTag);
+
+const nodes = [
+  decodeNode({
+    id: '10',
+    name: 'edge-01',
+    given_name: 'edge-01',
+    user: { id: '1', name: 'meristem' },
+    ip_addresses: ['fd7a:115c:a1e0::1', '100.64.0.1'],
+    online: true,
+    last_seen: '2025-01-01T00:00:00Z',
+    expiry: '2025-02-01T00:00:00Z',
+    forced_tags: [nodeIdentityTag('Edge_01')],
+    valid_tags: ['tag:edge'],
+  }),
+  decodeNode({
+    id: '2',
+    name: 'laptop',
+    user: { id: '2', name: 'alice' },
+    ip_addresses: ['100.64.0.2'],
+    online: false,
+    valid_tags: ['tag:meristem-laptop-7'],
+  }),
+  decodeNode({
+    id: '3',
+    name: 'printer',
+    user: { id: '2', name: 'alice' },
+    online: true,
+    valid_tags: [nodeIdentityTag('Printer_3')],
+  }),
+].map((node) => toInventoryNode(node, resolve));
+
+test('inventory normalizes addresses, tags and meristem identity', (): void => {
+  expect(nodes[0]).toEqual({
+    id: '10',
+    hostname: 'edge-01',
+    givenName: 'edge-01',
+    user: 'meristem',
+    tags: ['tag:edge', nodeIdentityTag('Edge_01')],
+    ipv4: '100.64.0.1',
+    ipv6: 'fd7a:115c:a1e0::1',
+    online: true,
+    lastSeen: '2025-01-01T00:00:00Z',
+    expiry: '2025-02-01T00:00:00Z',
+    meristemNodeId: 'Edge_01',
+  });
+  expect(nodes[1]?.meristemNodeId).toBe('laptop-7');
+  expect(nodes[2]?.meristemNodeId).toBe(null);
+});
+
+test('inventory filters and paginates in stable id order', (): void => {
+  expect(queryInventory(nodes, { onlineOnly: true }).nodes.map((node) => node.id)).toEqual(['3', '10']);
+  expect(queryInventory(nodes, { tag: 'tag:edge' }).nodes.map((node) => node.id)).toEqual(['10']);
+  expect(queryInventory(nodes, { user: 'alice' }).total).toBe(2);
+
+  const first = queryInventory(nodes, { limit: 2 });
+  expect([first.nodes.map((node) => node.id), first.total, first.nextOffset]).toEqual([['2', '3'], 3, 2]);
+  const second = queryInventory(nodes, { offset: first.nextOffset ?? 0, limit: 2 });
+  expect([second.nodes.map((node) => node.id), second.nextOffset]).toEqual([['10'], null]);
+});
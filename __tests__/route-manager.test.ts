@@ -0,0 +1,122 @@
+import { expect, test } from 'bun:test';
+import { createHeadscaleClient } from '../src/headscale-client';
+import {
+  cidrContains,
+  createRouteManager,
+  findRouteConflicts,
+  parseCidr,
+  readRouteApprovalRules,
+} from '../src/route-manager';
+import { decodeRoute } from '../src/headscale-types';
+
+const ROUTES = [
+  { id: '1', prefix: '10.1.0.0/16', advertised: true, node: { id: '7', name: 'edge-a', forced_tags: ['tag:edge'] } },
+  { id: '2', prefix: '10.1.2.0/24', advertised: true, node: { id: '8', name: 'edge-b', forced_tags: ['tag:edge'] } },
+  { id: '3', prefix: '192.168.5.0/24', advertised: true, node: { id: '8', name: 'edge-b', forced_tags: ['tag:edge'] } },
+  { id: '4', prefix: '0.0.0.0/0', advertised: true, node: { id: '7', name: 'edge-a', forced_tags: ['tag:edge'] } },
+  { id: '5', prefix: '0.0.0.0/0', advertised: true, node: { id: '9', name: 'laptop' } },
+  { id: '6', prefix: '192.168.5.0/24', advertised: true, enabled: true, node: { id: '9', name: 'laptop' } },
+];
+
+test('cidr parsing normalizes networks for both families', (): void => {
+  expect(parseCidr('10.1.2.3/16')).toEqual({ family: 4, network: 0x0a010000n, bits: 16 });
+  expect(parseCidr('fd7a:115c::1/32')).toEqual({ family: 6, network: 0xfd7a115cn << 96n, bits: 32 });
+  expect(parseCidr('10.1.2/8')).toBe(null);
+  expect(parseCidr('1::2::3/64')).toBe(null);
+  expect(parseCidr('10.0.0.0/')).toBe(null);
+  expect(parseCidr('10.0.0.0/+8')).toBe(null);
+  expect(parseCidr('10.0.0.0/8/8')).toBe(null);
+  expect(cidrContains(parseCidr('10.0.0.0/8')!, parseCidr('10.1.2.0/24')!)).toBe(true);
+  expect(cidrContains(parseCidr('10.1.2.0/24')!, parseCidr('10.0.0.0/8')!)).toBe(false);
+  expect(cidrContains(parseCidr('::/0')!, parseCidr('10.0.0.0/8')!)).toBe(false);
+});
+
+test('conflicts cover overlapping subnets across nodes but not exit routes', (): void => {
+  expect(findRouteConflicts(ROUTES.map(decodeRoute))).toEqual([
+    { prefixes: ['10.1.0.0/16', '10.1.2.0/24'], routeIds: ['1', '2'], nodeIds: ['7', '8'], identical: false },
+    { prefixes: ['192.168.5.0/24', '192.168.5.0/24'], routeIds: ['3', '6'], nodeIds: ['8', '9'], identical: true },
+  ]);
+});
+
+test('auto-approval honours tags, cidrs, exit opt-in and conflicts', async (): Promise<void> => {
+  const enabled: string[] = [];
+  const client = createHeadscaleClient({
+    baseUrl: 'http://headscale.test',
+    apiKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    fetcher: async (input) => {
+      const matched = /\/api\/v1\/routes\/(\d+)\/enable$/.exec(input);
+      if (matched) {
+        enabled.push(matched[1]);
+        return new Response('{}', { status: 200 });
+      }
+      return new Response(JSON.stringify({ routes: ROUTES }), { status: 200 });
+    },
+  });
+
+  const manager = createRouteManager({
+    getClient: () => client,
+    intervalMs: 1_000,
+    rules: readRouteApprovalRules([
+      { cidrs: ['10.0.0.0/8', '192.168.0.0/16', 'not-a-cidr'], tags: ['tag:edge'], allowExit: true },
+    ]),
+  });
+
+  expect(await manager.autoApprove()).toEqual({
+    approved: ['3', '4'],
+    skipped: [
+      { routeId: '1', prefix: '10.1.0.0/16', reason: 'overlaps 10.1.0.0/16 / 10.1.2.0/24' },
+      { routeId: '2', prefix: '10.1.2.0/24', reason: 'overlaps 10.1.0.0/16 / 10.1.2.0/24' },
+    ],
+  });
+  expect(enabled).toEqual(['3', '4']);
+
+  const listing = await manager.list('9');
+  expect(listing.nodes).toHaveLength(1);
+  expect([listing.nodes[0]?.advertised, listing.nodes[0]?.enabled]).toEqual([
+    ['0.0.0.0/0', '192.168.5.0/24'],
+    ['192.168.5.0/24'],
+  ]);
+  expect(listing.conflicts.map((conflict) => conflict.routeIds)).toEqual([['3', '6']]);
+});
+
+test('periodic sync reports each conflict once and records failures', async (): Promise<void> => {
+  let failing = false;
+  const client = createHeadscaleClient({
+    baseUrl: 'http://headscale.test',
+    apiKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    fetcher: async () =>
+      failing
+        ? new Response('{"message":"boom"}', { status: 500 })
+        : new Response(JSON.stringify({ routes: ROUTES.slice(0, 2) }), { status: 200 }),
+  });
+  const timers: Array<() => void> = [];
+  const reported: string[][] = [];
+  const manager = createRouteManager({
+    getClient: () => client,
+    intervalMs: 1_000,
+    rules: readRouteApprovalRules([{ cidrs: ['10.0.0.0/8'], tags: ['tag:edge'] }]),
+    onConflict: (conflict) => reported.push(conflict.routeIds),
+    now: () => 42,
+    setTimer: (handler) => timers.push(handler),
+    clearTimer: () => undefined,
+  });
+
+  const tick = async (): Promise<void> => {
+    timers.shift()?.();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  manager.start();
+  await tick();
+  await tick();
+  expect(reported).toEqual([['1', '2']]);
+  expect(manager.getStatus()).toEqual({ lastRunAt: 42, lastError: null, lastErrorAt: null });
+
+  failing = true;
+  await tick();
+  expect(manager.getStatus().lastErrorAt).toBe(42);
+  expect(manager.getStatus().lastError === null).toBe(false);
+  manager.stop();
+});
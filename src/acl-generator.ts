@@ -0,0 +1,326 @@
+import type { PolicyApplyResult } from './acl-policy';
+import { decodePolicy } from './acl-policy';
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+import type { HeadscaleAclRule, HeadscalePolicy } from './headscale-types';
+
+export type RoleRule = Readonly<{
+  from: string[];
+  to: string[];
+  ports: string[];
+  proto?: string;
+}>;
+
+export type AclGeneratorConfig = Readonly<{
+  roles: Readonly<Record<string, string>>;
+  rules: RoleRule[];
+  owners: string[];
+  manual: HeadscalePolicy | null;
+}>;
+
+export type GeneratedSection = Pick<HeadscalePolicy, 'tagOwners' | 'acls'>;
+
+export type RoleRuleIssue = Readonly<{
+  // 规则在 aclGenerator.rules 中的下标。
+  rule: number;
+  unknownRoles: string[];
+  // 来源或目标一侧没有任何已映射角色时整条规则不生成。
+  dropped: boolean;
+}>;
+
+export type GeneratedPolicy = Readonly<{
+  policy: HeadscalePolicy;
+  sections: Readonly<{
+    manual: HeadscalePolicy;
+    generated: GeneratedSection;
+  }>;
+  conflicts: string[];
+  ruleIssues: RoleRuleIssue[];
+}>;
+
+export type AclGenerationResult = GeneratedPolicy & Readonly<{ result: PolicyApplyResult }>;
+
+type AclGeneratorOptions = Readonly<{
+  config: AclGeneratorConfig;
+  statePath: string;
+  identityTag: (nodeId: string) => string;
+  apply: (policy: HeadscalePolicy, options: { dryRun: boolean }) => Promise<PolicyApplyResult>;
+  // 读取 Headscale 当前策略；未配置 manual 时用它减去上次生成的条目作为手写段。
+  current?: () => Promise<HeadscalePolicy>;
+}>;
+
+type GeneratorState = {
+  nodes: Map<string, string[]>;
+  generated: GeneratedSection | null;
+};
+
+const TAG_PATTERN = /^tag:[a-z0-9][a-z0-9-]*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+/**
+ * 读取插件配置中的 `aclGenerator` 段；未配置角色映射时返回 null，插件不接管 ACL 生成。
+ * 类型不符的角色（标签不是 `tag:` 形式）被丢弃，引用它们的规则在生成结果的 ruleIssues 中报告。
+ */
+export const readAclGeneratorConfig = (value: unknown, defaultOwners: string[]): AclGeneratorConfig | null => {
+  if (!isRecord(value) || !isRecord(value.roles)) {
+    return null;
+  }
+
+  const roles: Record<string, string> = {};
+  for (const [role, tag] of Object.entries(value.roles)) {
+    if (typeof tag === 'string' && TAG_PATTERN.test(tag)) {
+      roles[role] = tag;
+    }
+  }
+
+  const rules: RoleRule[] = Array.isArray(value.rules)
+    ? value.rules.filter(isRecord).map((rule) => ({
+        from: readStrings(rule.from),
+        to: readStrings(rule.to),
+        ports: readStrings(rule.ports).length > 0 ? readStrings(rule.ports) : ['*'],
+        ...(typeof rule.proto === 'string' ? { proto: rule.proto } : {}),
+      }))
+    : [];
+
+  const owners = readStrings(value.owners);
+
+  return {
+    roles,
+    rules,
+    owners: owners.length > 0 ? owners : defaultOwners,
+    manual: value.manual === undefined ? null : decodePolicy(value.manual, 'aclGenerator.manual'),
+  };
+};
+
+export const readNodeRoles = (data: unknown): string[] => (isRecord(data) ? readStrings(data.roles) : []);
+
+/**
+ * 逻辑块：按角色映射生成完整策略。
+ * - 手写段（groups/hosts/ssh 及手写 tagOwners/acls）原样保留在前，生成段追加在后，二者在返回值中分开给出。
+ * - 生成段包含每个角色标签与每个已加入节点身份标签的 tagOwners，以及角色间的访问规则。
+ * - 手写段已定义的标签以手写为准，冲突项列入 conflicts 而不是静默覆盖。
+ * - 规则引用未映射的角色时列入 ruleIssues；一侧没有任何可用角色的规则不生成，同样在其中标明。
+ */
+export const generatePolicy = (
+  config: AclGeneratorConfig,
+  nodes: ReadonlyMap<string, readonly string[]>,
+  identityTag: (nodeId: string) => string,
+): GeneratedPolicy => {
+  const manual = config.manual ?? decodePolicy({});
+  const conflicts: string[] = [];
+  const tagOwners: Record<string, string[]> = {};
+
+  const addTag = (tag: string): void => {
+    if (tag in manual.tagOwners) {
+      if (!conflicts.includes(tag)) {
+        conflicts.push(tag);
+      }
+      return;
+    }
+    tagOwners[tag] = [...config.owners];
+  };
+
+  for (const tag of Object.values(config.roles)) {
+    addTag(tag);
+  }
+  for (const nodeId of [...nodes.keys()].sort()) {
+    addTag(identityTag(nodeId));
+  }
+
+  const roleTag = (role: string): string | null => config.roles[role] ?? null;
+  const acls: HeadscaleAclRule[] = [];
+  const ruleIssues: RoleRuleIssue[] = [];
+  config.rules.forEach((rule, index) => {
+    const src = rule.from.map(roleTag).filter((tag): tag is string => tag !== null);
+    const dst = rule.to
+      .map(roleTag)
+      .filter((tag): tag is string => tag !== null)
+      .map((tag) => `${tag}:${rule.ports.join(',')}`);
+    const unknownRoles = [...new Set([...rule.from, ...rule.to].filter((role) => roleTag(role) === null))];
+    const dropped = src.length === 0 || dst.length === 0;
+    if (unknownRoles.length > 0 || dropped) {
+      ruleIssues.push({ rule: index, unknownRoles, dropped });
+    }
+    if (!dropped) {
+      acls.push({ action: 'accept', src, dst, ...(rule.proto ? { proto: rule.proto } : {}) });
+    }
+  });
+
+  return {
+    policy: {
+      ...manual,
+      tagOwners: { ...manual.tagOwners, ...tagOwners },
+      acls: [...manual.acls, ...acls],
+    },
+    sections: {
+      manual,
+      generated: { tagOwners, acls },
+    },
+    conflicts,
+    ruleIssues,
+  };
+};
+
+const sameJson = (left: unknown, right: unknown): boolean => JSON.stringify(left) === JSON.stringify(right);
+
+/**
+ * 从 Headscale 当前策略中去掉上次生成的条目，剩余部分即手写段（包括经 network-acl-apply 写入的修改）。
+ * 只去掉与上次生成内容完全一致的条目：生成后被人工改过的条目视为手写。
+ */
+export const stripGeneratedSection = (policy: HeadscalePolicy, generated: GeneratedSection | null): HeadscalePolicy => {
+  if (!generated) {
+    return policy;
+  }
+
+  const remaining = [...generated.acls];
+  const acls = policy.acls.filter((rule) => {
+    const index = remaining.findIndex((item) => sameJson(item, rule));
+    if (index === -1) {
+      return true;
+    }
+    remaining.splice(index, 1);
+    return false;
+  });
+
+  return {
+    ...policy,
+    tagOwners: Object.fromEntries(
+      Object.entries(policy.tagOwners).filter(([tag, owners]) => !sameJson(generated.tagOwners[tag], owners)),
+    ),
+    acls,
+  };
+};
+
+const readGeneratedSection = (value: unknown): GeneratedSection | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  try {
+    const { tagOwners, acls } = decodePolicy({ tagOwners: value.tagOwners, acls: value.acls }, 'generated');
+    return { tagOwners, acls };
+  } catch {
+    return null;
+  }
+};
+
+const readState = async (path: string): Promise<GeneratorState> => {
+  const content = await readTextIfExists(path);
+  if (content === null) {
+    return { nodes: new Map(), generated: null };
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { nodes?: unknown; generated?: unknown };
+    return {
+      nodes: new Map(
+        isRecord(parsed.nodes)
+          ? Object.entries(parsed.nodes).map(([nodeId, roles]) => [nodeId, readStrings(roles)])
+          : [],
+      ),
+      generated: readGeneratedSection(parsed.generated),
+    };
+  } catch {
+    return { nodes: new Map(), generated: null };
+  }
+};
+
+/**
+ * 逻辑块：角色驱动的 ACL 生成器。
+ * - 已加入节点及其角色落盘保存，插件重启后重新生成时不会丢失节点身份标签。
+ * - 节点加入时先登记并重新生成策略，再签发携带身份与角色标签的密钥，保证标签在策略中已存在。
+ * - 每次下发后把生成段一并落盘，下次生成时据此区分生成条目与手写条目；节点被移除后其身份标签随之清理。
+ */
+export const createAclGenerator = (options: AclGeneratorOptions) => {
+  let state: GeneratorState | null = null;
+  let loading: Promise<GeneratorState> | null = null;
+
+  // 缓存加载中的 Promise：并发的首次调用共享同一份状态，不会各自读取后互相覆盖；读取失败时清除，下次调用重试。
+  const loadState = async (): Promise<GeneratorState> => {
+    loading ??= readState(options.statePath).then(
+      (loaded) => (state = loaded),
+      (error: unknown) => {
+        loading = null;
+        throw error;
+      },
+    );
+    return loading;
+  };
+
+  const loadNodes = async (): Promise<Map<string, string[]>> => (await loadState()).nodes;
+
+  const saveState = async (): Promise<void> => {
+    const current = await loadState();
+    await writeFileIfChanged(
+      options.statePath,
+      `${JSON.stringify(
+        {
+          nodes: Object.fromEntries([...current.nodes].sort(([a], [b]) => a.localeCompare(b))),
+          ...(current.generated ? { generated: current.generated } : {}),
+        },
+        null,
+        2,
+      )}\n`,
+    );
+  };
+
+  const resolveManual = async (previous: GeneratedSection | null): Promise<HeadscalePolicy | null> => {
+    if (options.config.manual || !options.current) {
+      return options.config.manual;
+    }
+
+    return stripGeneratedSection(await options.current(), previous);
+  };
+
+  const regenerate = async (dryRun = false): Promise<AclGenerationResult> => {
+    const current = await loadState();
+    const manual = await resolveManual(current.generated);
+    const generated = generatePolicy({ ...options.config, manual }, current.nodes, options.identityTag);
+    const result = await options.apply(generated.policy, { dryRun });
+    if (!dryRun) {
+      current.generated = generated.sections.generated;
+      await saveState();
+    }
+    return { ...generated, result };
+  };
+
+  const registerNode = async (nodeId: string, roles: readonly string[]): Promise<AclGenerationResult> => {
+    (await loadNodes()).set(nodeId, [...new Set(roles)].sort());
+    await saveState();
+    return regenerate();
+  };
+
+  /**
+   * 节点被移除后注销，重新生成的策略不再包含其身份标签；未登记的节点返回 null。
+   */
+  const unregisterNode = async (nodeId: string): Promise<AclGenerationResult | null> => {
+    if (!(await loadNodes()).delete(nodeId)) {
+      return null;
+    }
+
+    await saveState();
+    return regenerate();
+  };
+
+  /**
+   * 节点加入密钥上附加的角色标签；未映射的角色忽略。
+   */
+  const tagsForNode = (nodeId: string): string[] =>
+    (state?.nodes.get(nodeId) ?? [])
+      .map((role) => options.config.roles[role])
+      .filter((tag): tag is string => typeof tag === 'string');
+
+  return Object.freeze({
+    registerNode,
+    unregisterNode,
+    regenerate,
+    tagsForNode,
+    listNodeIds: async (): Promise<string[]> => [...(await loadNodes()).keys()],
+  });
+};
+
+export type AclGenerator = ReturnType<typeof createAclGenerator>;
@@ -0,0 +1,518 @@
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+import type { HeadscaleClient } from './headscale-client';
+import type { HeadscaleAclRule, HeadscalePolicy, HeadscaleSshRule } from './headscale-types';
+import { PluginError } from './plugin-errors';
+
+export type PolicyIssue = Readonly<{
+  path: string;
+  message: string;
+}>;
+
+export type PolicyChange = Readonly<{
+  path: string;
+  op: 'add' | 'remove' | 'change';
+  before?: unknown;
+  after?: unknown;
+}>;
+
+export type PolicyValidationContext = Readonly<{
+  users: readonly string[];
+}>;
+
+export type PolicyHistoryEntry = Readonly<{
+  version: number;
+  appliedAt: number;
+  source: 'baseline' | 'apply';
+  policy: HeadscalePolicy;
+}>;
+
+export type PolicyApplyResult = Readonly<{
+  dryRun: boolean;
+  applied: boolean;
+  version: number | null;
+  issues: PolicyIssue[];
+  diff: PolicyChange[];
+}>;
+
+export type PolicyRollbackResult = Readonly<{
+  version: number;
+  diff: PolicyChange[];
+}>;
+
+type AclManagerOptions = Readonly<{
+  getClient: () => HeadscaleClient | null;
+  historyPath: string;
+  historyLimit: number;
+  now?: () => number;
+}>;
+
+export const EMPTY_POLICY: HeadscalePolicy = Object.freeze({
+  groups: {},
+  tagOwners: {},
+  hosts: {},
+  acls: [],
+  ssh: [],
+});
+
+const AUTOGROUPS = new Set(['autogroup:internet', 'autogroup:member', 'autogroup:self', 'autogroup:tagged']);
+const SSH_USER_AUTOGROUPS = new Set(['autogroup:nonroot']);
+const PORT_PATTERN = /^(\*|\d{1,5}(-\d{1,5})?(,\d{1,5}(-\d{1,5})?)*)$/;
+const IPV4_PATTERN = /^(\d{1,3})(\.\d{1,3}){3}(\/\d{1,2})?$/;
+const IPV6_PATTERN = /^[0-9a-fA-F:]*:[0-9a-fA-F:.]*(\/\d{1,3})?$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalidPolicy = (path: string, expected: string): PluginError =>
+  new PluginError('INVALID_PARAMS', `${path} must be ${expected}`);
+
+const readStrings = (value: unknown, path: string): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw invalidPolicy(path, 'an array of strings');
+  }
+
+  return [...value];
+};
+
+const readStringLists = (value: unknown, path: string): Record<string, string[]> => {
+  if (value === undefined) {
+    return {};
+  }
+
+  if (!isRecord(value)) {
+    throw invalidPolicy(path, 'an object');
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, readStrings(item, `${path}.${key}`)]));
+};
+
+const readHosts = (value: unknown, path: string): Record<string, string> => {
+  if (value === undefined) {
+    return {};
+  }
+
+  if (!isRecord(value) || !Object.values(value).every((item) => typeof item === 'string')) {
+    throw invalidPolicy(path, 'an object of strings');
+  }
+
+  return { ...(value as Record<string, string>) };
+};
+
+const readRules = <T>(
+  value: unknown,
+  path: string,
+  decode: (item: Record<string, unknown>, path: string) => T,
+): T[] => {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    throw invalidPolicy(path, 'an array');
+  }
+
+  return value.map((item, index) => {
+    if (!isRecord(item)) {
+      throw invalidPolicy(`${path}[${index}]`, 'an object');
+    }
+    return decode(item, `${path}[${index}]`);
+  });
+};
+
+const decodeAclRule = (item: Record<string, unknown>, path: string): HeadscaleAclRule => {
+  if (item.action !== 'accept') {
+    throw invalidPolicy(`${path}.action`, '"accept"');
+  }
+
+  if (item.proto !== undefined && typeof item.proto !== 'string') {
+    throw invalidPolicy(`${path}.proto`, 'a string');
+  }
+
+  return {
+    action: 'accept',
+    src: readStrings(item.src, `${path}.src`),
+    dst: readStrings(item.dst, `${path}.dst`),
+    ...(item.proto !== undefined ? { proto: item.proto as string } : {}),
+  };
+};
+
+const decodeSshRule = (item: Record<string, unknown>, path: string): HeadscaleSshRule => {
+  if (item.action !== 'accept' && item.action !== 'check') {
+    throw invalidPolicy(`${path}.action`, '"accept" or "check"');
+  }
+
+  if (item.checkPeriod !== undefined && typeof item.checkPeriod !== 'string') {
+    throw invalidPolicy(`${path}.checkPeriod`, 'a string');
+  }
+
+  return {
+    action: item.action,
+    src: readStrings(item.src, `${path}.src`),
+    dst: readStrings(item.dst, `${path}.dst`),
+    users: readStrings(item.users, `${path}.users`),
+    ...(item.checkPeriod !== undefined ? { checkPeriod: item.checkPeriod as string } : {}),
+  };
+};
+
+/**
+ * 把调用方或 Headscale 返回的策略对象收敛为 HeadscalePolicy；结构或类型不符时抛出 INVALID_PARAMS。
+ * 插件不解析的顶层段原样保留，避免下发或回滚时把 autoApprovers 等段从 Headscale 中删除。
+ */
+export const decodePolicy = (value: unknown, path = 'policy'): HeadscalePolicy => {
+  if (!isRecord(value)) {
+    throw invalidPolicy(path, 'an object');
+  }
+
+  return {
+    ...value,
+    groups: readStringLists(value.groups, `${path}.groups`),
+    tagOwners: readStringLists(value.tagOwners, `${path}.tagOwners`),
+    hosts: readHosts(value.hosts, `${path}.hosts`),
+    acls: readRules(value.acls, `${path}.acls`, decodeAclRule),
+    ssh: readRules(value.ssh, `${path}.ssh`, decodeSshRule),
+  };
+};
+
+/**
+ * HuJSON 转 JSON：去掉字符串之外的注释与尾随逗号。
+ */
+export const stripHuJson = (text: string): string => {
+  let output = '';
+  let inString = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += next ?? '';
+        index += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && next === '/') {
+      while (index < text.length && text[index] !== '\n') {
+        index += 1;
+      }
+      output += '\n';
+    } else if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+
+  return output.replace(/,(\s*[}\]])/g, '$1');
+};
+
+export const parsePolicyDocument = (text: string): HeadscalePolicy => {
+  if (text.trim().length === 0) {
+    return EMPTY_POLICY;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripHuJson(text));
+  } catch (error) {
+    throw new PluginError(
+      'INVALID_PARAMS',
+      `Headscale policy is not valid HuJSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return decodePolicy(parsed);
+};
+
+const isIpOrCidr = (value: string): boolean => IPV4_PATTERN.test(value) || IPV6_PATTERN.test(value);
+
+const normalizeUser = (value: string): string => value.replace(/@$/, '');
+
+/**
+ * 逻辑块：策略语义校验。
+ * - 引用的 group/tag/host 必须在对应段中定义；裸名称必须是已知的 Headscale 用户或 hosts 别名。
+ * - tagOwners 的所有者只能是已定义的组或已知用户；dst 必须带端口段。
+ * - 一次返回全部问题（含 JSON 路径），便于调用方一次修正。
+ */
+export const validatePolicy = (policy: HeadscalePolicy, context: PolicyValidationContext): PolicyIssue[] => {
+  const issues: PolicyIssue[] = [];
+  const users = new Set(context.users.map(normalizeUser));
+  const issue = (path: string, message: string): void => {
+    issues.push({ path, message });
+  };
+
+  const checkUserOrGroup = (value: string, path: string): void => {
+    if (value.startsWith('group:')) {
+      if (!(value in policy.groups)) {
+        issue(path, `unknown group ${value}`);
+      }
+    } else if (!users.has(normalizeUser(value))) {
+      issue(path, `unknown user ${value}`);
+    }
+  };
+
+  const checkAlias = (value: string, path: string): void => {
+    if (value === '*' || AUTOGROUPS.has(value) || isIpOrCidr(value)) {
+      return;
+    }
+
+    if (value.startsWith('group:')) {
+      checkUserOrGroup(value, path);
+    } else if (value.startsWith('tag:')) {
+      if (!(value in policy.tagOwners)) {
+        issue(path, `unknown tag ${value}`);
+      }
+    } else if (value.startsWith('autogroup:')) {
+      issue(path, `unknown autogroup ${value}`);
+    } else if (!(value in policy.hosts) && !users.has(normalizeUser(value))) {
+      issue(path, `unknown host or user ${value}`);
+    }
+  };
+
+  for (const [name, members] of Object.entries(policy.groups)) {
+    if (!name.startsWith('group:')) {
+      issue(`groups.${name}`, 'group names must start with "group:"');
+    }
+    members.forEach((member, index) => {
+      if (!users.has(normalizeUser(member))) {
+        issue(`groups.${name}[${index}]`, `unknown user ${member}`);
+      }
+    });
+  }
+
+  for (const [tag, owners] of Object.entries(policy.tagOwners)) {
+    if (!tag.startsWith('tag:')) {
+      issue(`tagOwners.${tag}`, 'tag names must start with "tag:"');
+    }
+    owners.forEach((owner, index) => {
+      if (!owner.startsWith('tag:')) {
+        checkUserOrGroup(owner, `tagOwners.${tag}[${index}]`);
+      } else if (!(owner in policy.tagOwners)) {
+        issue(`tagOwners.${tag}[${index}]`, `unknown tag ${owner}`);
+      }
+    });
+  }
+
+  for (const [name, address] of Object.entries(policy.hosts)) {
+    if (!isIpOrCidr(address)) {
+      issue(`hosts.${name}`, `invalid IP or CIDR ${address}`);
+    }
+  }
+
+  policy.acls.forEach((rule, ruleIndex) => {
+    const path = `acls[${ruleIndex}]`;
+    if (rule.src.length === 0) {
+      issue(`${path}.src`, 'must not be empty');
+    }
+    if (rule.dst.length === 0) {
+      issue(`${path}.dst`, 'must not be empty');
+    }
+    rule.src.forEach((source, index) => checkAlias(source, `${path}.src[${index}]`));
+    rule.dst.forEach((target, index) => {
+      const separator = target.lastIndexOf(':');
+      const alias = separator > 0 ? target.slice(0, separator) : target;
+      const ports = separator > 0 ? target.slice(separator + 1) : '';
+      if (!PORT_PATTERN.test(ports)) {
+        issue(`${path}.dst[${index}]`, `missing or invalid port list in ${target}`);
+        return;
+      }
+      checkAlias(alias, `${path}.dst[${index}]`);
+    });
+  });
+
+  policy.ssh.forEach((rule, ruleIndex) => {
+    const path = `ssh[${ruleIndex}]`;
+    rule.src.forEach((source, index) => checkAlias(source, `${path}.src[${index}]`));
+    rule.dst.forEach((target, index) => checkAlias(target, `${path}.dst[${index}]`));
+    if (rule.users.length === 0) {
+      issue(`${path}.users`, 'must not be empty');
+    }
+    rule.users.forEach((user, index) => {
+      if (user.startsWith('autogroup:') && !SSH_USER_AUTOGROUPS.has(user)) {
+        issue(`${path}.users[${index}]`, `unknown autogroup ${user}`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path.length > 0 ? `${path}.${key}` : key;
+
+/**
+ * 结构化差异：对象按键、数组按下标逐层比较，叶子值变化记为 change。
+ */
+export const diffPolicy = (before: unknown, after: unknown, path = ''): PolicyChange[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: PolicyChange[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index += 1) {
+      if (index >= after.length) {
+        changes.push({ path: joinPath(path, index), op: 'remove', before: before[index] });
+      } else if (index >= before.length) {
+        changes.push({ path: joinPath(path, index), op: 'add', after: after[index] });
+      } else {
+        changes.push(...diffPolicy(before[index], after[index], joinPath(path, index)));
+      }
+    }
+    return changes;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const changes: PolicyChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in after)) {
+        changes.push({ path: joinPath(path, key), op: 'remove', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: joinPath(path, key), op: 'add', after: after[key] });
+      } else {
+        changes.push(...diffPolicy(before[key], after[key], joinPath(path, key)));
+      }
+    }
+    return changes;
+  }
+
+  return before === after ? [] : [{ path, op: 'change', before, after }];
+};
+
+const readHistory = async (path: string): Promise<PolicyHistoryEntry[]> => {
+  const content = await readTextIfExists(path);
+  if (content === null) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { entries?: unknown };
+    return Array.isArray(parsed.entries)
+      ? parsed.entries.filter(
+          (entry): entry is PolicyHistoryEntry =>
+            isRecord(entry) && typeof entry.version === 'number' && isRecord(entry.policy),
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 逻辑块：ACL 策略下发与回滚。
+ * - apply：先结构校验与语义校验，再与 Headscale 当前策略做结构化差异；dryRun 只返回结果不写入。
+ * - 首次下发前把 Headscale 现有策略记为 baseline，保证第一次下发也能回滚。
+ * - 历史保留最近 historyLimit 个版本并落盘；rollback 恢复到上一个版本并移除当前版本。
+ */
+export const createAclManager = (options: AclManagerOptions) => {
+  const now = options.now ?? (() => Date.now());
+  let history: PolicyHistoryEntry[] = [];
+  let loading: Promise<void> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const requireClient = (): HeadscaleClient => {
+    const client = options.getClient();
+    if (!client) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+    return client;
+  };
+
+  // 缓存加载中的 Promise：并发的首次调用共享同一次读取；读取失败时清除，下次调用重试。
+  const loadHistory = async (): Promise<PolicyHistoryEntry[]> => {
+    loading ??= readHistory(options.historyPath).then(
+      (loaded) => {
+        history = loaded;
+      },
+      (error: unknown) => {
+        loading = null;
+        throw error;
+      },
+    );
+    await loading;
+    return history;
+  };
+
+  /**
+   * 在最新的内存历史上同步修改后落盘：并发下发各自基于前一次修改的结果，不会丢失条目；
+   * 写入串行执行且总是写出当时的最新历史，文件不会被较旧的内容覆盖。
+   */
+  const updateHistory = async (
+    update: (entries: readonly PolicyHistoryEntry[]) => PolicyHistoryEntry[],
+  ): Promise<void> => {
+    await loadHistory();
+    history = update(history).slice(-Math.max(options.historyLimit, 2));
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        await writeFileIfChanged(options.historyPath, `${JSON.stringify({ entries: history }, null, 2)}\n`);
+      });
+    await writing;
+  };
+
+  const nextVersion = (entries: readonly PolicyHistoryEntry[]): number => (entries.at(-1)?.version ?? 0) + 1;
+
+  const apply = async (input: unknown, applyOptions: { dryRun?: boolean } = {}): Promise<PolicyApplyResult> => {
+    const dryRun = applyOptions.dryRun === true;
+    const policy = decodePolicy(input);
+    const client = requireClient();
+    const users = await client.listUsers();
+    const issues = validatePolicy(policy, { users: users.map((user) => user.name) });
+    const current = parsePolicyDocument((await client.getPolicy()).policy);
+    const diff = diffPolicy(current, policy);
+
+    if (dryRun || diff.length === 0) {
+      return { dryRun, applied: false, version: null, issues, diff };
+    }
+
+    if (issues.length > 0) {
+      throw new PluginError(
+        'INVALID_PARAMS',
+        `Policy validation failed: ${issues.map((item) => `${item.path}: ${item.message}`).join('; ')}`,
+      );
+    }
+
+    await client.updateAcl(policy);
+    let version = 0;
+    await updateHistory((entries) => {
+      const previous: PolicyHistoryEntry[] =
+        entries.length === 0 ? [{ version: 1, appliedAt: now(), source: 'baseline', policy: current }] : [...entries];
+      version = nextVersion(previous);
+      return [...previous, { version, appliedAt: now(), source: 'apply', policy }];
+    });
+
+    return { dryRun, applied: true, version, issues, diff };
+  };
+
+  const rollback = async (): Promise<PolicyRollbackResult> => {
+    const entries = [...(await loadHistory())];
+    const target = entries.at(-2);
+    if (!target) {
+      throw new PluginError('PRECONDITION_FAILED', 'No previous ACL policy to roll back to');
+    }
+
+    const client = requireClient();
+    const current = parsePolicyDocument((await client.getPolicy()).policy);
+    await client.updateAcl(target.policy);
+    await updateHistory((latest) => latest.slice(0, -1));
+
+    return { version: target.version, diff: diffPolicy(current, target.policy) };
+  };
+
+  return Object.freeze({
+    apply,
+    rollback,
+    current: async (): Promise<HeadscalePolicy> => parsePolicyDocument((await requireClient().getPolicy()).policy),
+    getHistory: async (): Promise<PolicyHistoryEntry[]> => [...(await loadHistory())],
+  });
+};
+
+export type AclManager = ReturnType<typeof createAclManager>;
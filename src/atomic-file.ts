@@ -0,0 +1,40 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+const isMissingFile = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'ENOENT';
+
+export const readTextIfExists = async (path: string): Promise<string | null> => {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * 逻辑块：内容比对 + 原子替换写入。
+ * - 内容未变化时不落盘，返回 false，调用方据此跳过后续的变更通知。
+ * - 先写同目录临时文件再 rename，Headscale 读取时只会看到完整的旧文件或新文件。
+ */
+export const writeFileIfChanged = async (path: string, content: string): Promise<boolean> => {
+  const existing = await readTextIfExists(path);
+  if (existing === content) {
+    return false;
+  }
+
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  return true;
+};
@@ -0,0 +1,62 @@
+export type AuditRecord<TAction extends string = string> = Readonly<{
+  seq: number;
+  timestamp: number;
+  action: TAction;
+  subject: string;
+  detail: Readonly<Record<string, unknown>>;
+}>;
+
+export type AuditQuery = Readonly<{
+  subject?: string;
+  tail?: number;
+}>;
+
+type AuditLogOptions = Readonly<{
+  capacity?: number;
+  now?: () => number;
+  onRecord?: (record: AuditRecord) => void;
+}>;
+
+const DEFAULT_CAPACITY = 500;
+
+/**
+ * 逻辑块：插件自动操作的审计记录。
+ * - 只追加、容量有界，超出时丢弃最旧记录；detail 中不得放入密钥等敏感值。
+ * - onRecord 供调用方把记录同步转发给 Core。
+ */
+export const createAuditLog = <TAction extends string>(options: AuditLogOptions = {}) => {
+  const capacity =
+    Number.isInteger(options.capacity) && (options.capacity ?? 0) > 0 ? options.capacity! : DEFAULT_CAPACITY;
+  const now = options.now ?? (() => Date.now());
+  const records: AuditRecord<TAction>[] = [];
+  let seq = 0;
+
+  const record = (
+    action: TAction,
+    subject: string,
+    detail: Readonly<Record<string, unknown>> = {},
+  ): AuditRecord<TAction> => {
+    seq += 1;
+    const stored: AuditRecord<TAction> = Object.freeze({ seq, timestamp: now(), action, subject, detail });
+    records.push(stored);
+    if (records.length > capacity) {
+      records.shift();
+    }
+
+    options.onRecord?.(stored);
+    return stored;
+  };
+
+  const query = (filter: AuditQuery = {}): AuditRecord<TAction>[] => {
+    const matched = filter.subject ? records.filter((item) => item.subject === filter.subject) : [...records];
+    const tail = typeof filter.tail === 'number' && filter.tail > 0 ? Math.floor(filter.tail) : matched.length;
+    return matched.slice(-tail);
+  };
+
+  return Object.freeze({
+    record,
+    query,
+  });
+};
+
+export type AuditLog<TAction extends string = string> = ReturnType<typeof createAuditLog<TAction>>;
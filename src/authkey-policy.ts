@@ -0,0 +1,219 @@
+import type { CreatePreAuthKeyInput } from './headscale-types';
+import { PluginError } from './plugin-errors';
+
+export type AuthKeyRequest = Readonly<{
+  user: string;
+  reusable: boolean;
+  ephemeral: boolean;
+  expiration: string | null;
+  aclTags: string[];
+}>;
+
+export type AuthKeyPolicyConfig = Readonly<{
+  defaultTtlMs: number;
+  maxTtlMs: number;
+  allowReusable: boolean;
+  allowedTags: Readonly<Record<string, readonly string[]>>;
+  allowedUsers: Readonly<Record<string, readonly string[]>>;
+  rateLimit: Readonly<{ limit: number; windowMs: number }>;
+}>;
+
+type AuthKeyPolicyOptions = Readonly<{
+  config: AuthKeyPolicyConfig;
+  now?: () => number;
+}>;
+
+export const DEFAULT_AUTH_KEY_POLICY: AuthKeyPolicyConfig = {
+  defaultTtlMs: 60 * 60_000,
+  maxTtlMs: 24 * 60 * 60_000,
+  allowReusable: false,
+  allowedTags: {},
+  allowedUsers: {},
+  rateLimit: { limit: 10, windowMs: 60_000 },
+};
+
+// allowedTags/allowedUsers 中未单独配置的调用方使用该键的集合。
+export const ANY_CALLER = '*';
+
+const TAG_PATTERN = /^tag:[a-z0-9][a-z0-9-]*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const positiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const readCallerLists = (value: unknown): Record<string, string[]> => {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const lists: Record<string, string[]> = {};
+  for (const [caller, items] of Object.entries(value)) {
+    if (Array.isArray(items)) {
+      lists[caller] = items.filter((item): item is string => typeof item === 'string');
+    }
+  }
+
+  return lists;
+};
+
+/**
+ * 读取插件配置中的 `authKeyPolicy` 段；缺省项回落到保守的默认策略。
+ */
+export const readAuthKeyPolicyConfig = (value: unknown): AuthKeyPolicyConfig => {
+  const raw = isRecord(value) ? value : {};
+  const rateLimit = isRecord(raw.rateLimit) ? raw.rateLimit : {};
+  const defaults = DEFAULT_AUTH_KEY_POLICY;
+
+  return {
+    defaultTtlMs: positiveNumber(raw.defaultTtlMs, defaults.defaultTtlMs),
+    maxTtlMs: positiveNumber(raw.maxTtlMs, defaults.maxTtlMs),
+    allowReusable: raw.allowReusable === true,
+    allowedTags: readCallerLists(raw.allowedTags),
+    allowedUsers: readCallerLists(raw.allowedUsers),
+    rateLimit: {
+      limit: Math.floor(positiveNumber(rateLimit.limit, defaults.rateLimit.limit)),
+      windowMs: positiveNumber(rateLimit.windowMs, defaults.rateLimit.windowMs),
+    },
+  };
+};
+
+const readOptionalBoolean = (payload: Record<string, unknown>, field: string): boolean => {
+  const value = payload[field];
+  if (value === undefined) {
+    return false;
+  }
+
+  if (typeof value !== 'boolean') {
+    throw new PluginError('INVALID_PARAMS', `network-authkey payload.${field} must be a boolean`);
+  }
+
+  return value;
+};
+
+/**
+ * 逻辑块：network-authkey 请求结构校验。
+ * - 字段类型错误直接拒绝，而不是静默忽略，避免调用方误以为设置已生效。
+ * - expiration 必须是可解析的时间，aclTags 必须符合 Headscale 的 `tag:` 命名。
+ */
+export const parseAuthKeyRequest = (payload: unknown): AuthKeyRequest => {
+  if (!isRecord(payload)) {
+    throw new PluginError('INVALID_PARAMS', 'network-authkey requires payload');
+  }
+
+  if (typeof payload.user !== 'string' || payload.user.length === 0) {
+    throw new PluginError('INVALID_PARAMS', 'network-authkey requires payload.user');
+  }
+
+  let expiration: string | null = null;
+  if (payload.expiration !== undefined) {
+    if (typeof payload.expiration !== 'string' || Number.isNaN(Date.parse(payload.expiration))) {
+      throw new PluginError('INVALID_PARAMS', 'network-authkey payload.expiration must be an ISO-8601 timestamp');
+    }
+    expiration = payload.expiration;
+  }
+
+  let aclTags: string[] = [];
+  if (payload.aclTags !== undefined) {
+    if (!Array.isArray(payload.aclTags) || !payload.aclTags.every((tag) => typeof tag === 'string')) {
+      throw new PluginError('INVALID_PARAMS', 'network-authkey payload.aclTags must be an array of strings');
+    }
+
+    const invalid = payload.aclTags.filter((tag) => !TAG_PATTERN.test(tag));
+    if (invalid.length > 0) {
+      throw new PluginError(
+        'INVALID_PARAMS',
+        `network-authkey payload.aclTags has invalid tags: ${invalid.join(', ')}`,
+      );
+    }
+    aclTags = [...new Set(payload.aclTags as string[])];
+  }
+
+  return {
+    user: payload.user,
+    reusable: readOptionalBoolean(payload, 'reusable'),
+    ephemeral: readOptionalBoolean(payload, 'ephemeral'),
+    expiration,
+    aclTags,
+  };
+};
+
+/**
+ * 逻辑块：预授权密钥签发策略。
+ * - 可复用密钥默认禁止；未给出过期时间时使用默认 TTL，超过最大 TTL 的请求被拒绝。
+ * - 目标用户与标签都按调用方白名单校验，未配置白名单的调用方不能为任何用户签发、不能申请任何标签。
+ * - 每个调用方在滑动窗口内的签发次数受限：authorize 只检查剩余配额，密钥创建成功后再由 consumeQuota 计入，
+ *   失败或超时的创建不占用配额。
+ */
+export const createAuthKeyPolicy = (options: AuthKeyPolicyOptions) => {
+  const { config } = options;
+  const now = options.now ?? (() => Date.now());
+  const issued = new Map<string, number[]>();
+
+  const deny = (message: string): never => {
+    throw new PluginError('POLICY_DENIED', message);
+  };
+
+  const recentIssues = (caller: string, at: number): number[] => {
+    const windowStart = at - config.rateLimit.windowMs;
+    const recent = (issued.get(caller) ?? []).filter((timestamp) => timestamp > windowStart);
+    issued.set(caller, recent);
+    return recent;
+  };
+
+  const checkQuota = (caller: string, at: number): void => {
+    if (recentIssues(caller, at).length >= config.rateLimit.limit) {
+      deny(`Auth key rate limit exceeded for ${caller}: ${config.rateLimit.limit} per ${config.rateLimit.windowMs}ms`);
+    }
+  };
+
+  const consumeQuota = (caller: string): void => {
+    const at = now();
+    recentIssues(caller, at).push(at);
+  };
+
+  const authorize = (caller: string, request: AuthKeyRequest): CreatePreAuthKeyInput => {
+    const at = now();
+
+    if (request.reusable && !config.allowReusable) {
+      deny('Reusable auth keys are not allowed by policy');
+    }
+
+    const expiresAt = request.expiration === null ? at + config.defaultTtlMs : Date.parse(request.expiration);
+    if (expiresAt <= at) {
+      deny('Auth key expiration must be in the future');
+    }
+    if (expiresAt - at > config.maxTtlMs) {
+      deny(`Auth key lifetime exceeds policy maximum of ${config.maxTtlMs}ms`);
+    }
+
+    const users = config.allowedUsers[caller] ?? config.allowedUsers[ANY_CALLER] ?? [];
+    if (!users.includes(request.user)) {
+      deny(`User not allowed for ${caller}: ${request.user}`);
+    }
+
+    const allowed = new Set(config.allowedTags[caller] ?? config.allowedTags[ANY_CALLER] ?? []);
+    const forbidden = request.aclTags.filter((tag) => !allowed.has(tag));
+    if (forbidden.length > 0) {
+      deny(`Tags not allowed for ${caller}: ${forbidden.join(', ')}`);
+    }
+
+    checkQuota(caller, at);
+
+    return {
+      user: request.user,
+      reusable: request.reusable,
+      ephemeral: request.ephemeral,
+      expiration: new Date(expiresAt).toISOString(),
+      aclTags: request.aclTags,
+    };
+  };
+
+  return Object.freeze({
+    authorize,
+    consumeQuota,
+  });
+};
+
+export type AuthKeyPolicy = ReturnType<typeof createAuthKeyPolicy>;
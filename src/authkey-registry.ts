@@ -0,0 +1,316 @@
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+import type { HeadscaleClient } from './headscale-client';
+import type { HeadscalePreAuthKey } from './headscale-types';
+import { PluginError } from './plugin-errors';
+
+export type IssuedAuthKeyStatus = 'unused' | 'used' | 'expired' | 'revoked';
+
+export type IssuedAuthKey = Readonly<{
+  id: string;
+  user: string;
+  aclTags: string[];
+  reusable: boolean;
+  ephemeral: boolean;
+  caller: string;
+  traceId: string | null;
+  issuedAt: number;
+  expiration: string | null;
+  used: boolean;
+  revokedAt: number | null;
+  revokeReason: 'manual' | 'sweep' | null;
+  status: IssuedAuthKeyStatus;
+}>;
+
+export type IssuedAuthKeyContext = Readonly<{
+  caller: string;
+  traceId?: string | null;
+}>;
+
+export type AuthKeyListFilter = Readonly<{
+  user?: string;
+  status?: IssuedAuthKeyStatus;
+}>;
+
+export type AuthKeyListResult = Readonly<{
+  keys: IssuedAuthKey[];
+  refreshError: string | null;
+}>;
+
+export type AuthKeySweepResult = Readonly<{
+  revoked: string[];
+  failed: Readonly<{ id: string; error: string }>[];
+}>;
+
+type AuthKeyRegistryOptions = Readonly<{
+  getClient: () => HeadscaleClient | null;
+  statePath: string;
+  maxUnusedAgeMs: number;
+  sweepIntervalMs: number;
+  retentionMs?: number;
+  // 后台清理整体失败（如状态文件读写失败）时回调；单个密钥的撤销失败记录在清理结果中。
+  onSweepError?: (error: unknown) => void;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+type StoredAuthKey = Omit<IssuedAuthKey, 'status'>;
+
+type RegistryEntry = {
+  record: StoredAuthKey;
+  // 撤销接口需要密钥原文；只保存在内存中，不落盘，也不出现在任何对外返回值里。重启后恢复的记录为 null。
+  secret: string | null;
+};
+
+const DEFAULT_RETENTION_MS = 24 * 60 * 60_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const isStoredAuthKey = (value: unknown): value is StoredAuthKey =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.user === 'string' &&
+  Array.isArray(value.aclTags) &&
+  typeof value.caller === 'string' &&
+  typeof value.issuedAt === 'number' &&
+  typeof value.used === 'boolean';
+
+const readEntries = async (path: string): Promise<Map<string, RegistryEntry>> => {
+  const content = await readTextIfExists(path);
+  if (content === null) {
+    return new Map();
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { keys?: unknown };
+    return new Map(
+      Array.isArray(parsed.keys)
+        ? parsed.keys.filter(isStoredAuthKey).map((record) => [record.id, { record, secret: null }])
+        : [],
+    );
+  } catch {
+    return new Map();
+  }
+};
+
+/**
+ * 逻辑块：插件签发密钥登记表。
+ * - 记录每个经插件签发的密钥（调用方、traceId、标签、过期时间），used 状态按需从 Headscale 同步。
+ * - 后台清理器把超过最大闲置时间仍未使用的密钥通过 API 置为过期；终态记录超过保留期后移除，内存有界。
+ * - 记录（不含密钥原文）落盘保存，插件重启后仍可列出、撤销与清理此前签发的密钥；
+ *   撤销重启前签发的密钥时按 ID 从 Headscale 查回密钥原文。
+ */
+export const createAuthKeyRegistry = (options: AuthKeyRegistryOptions) => {
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+  const retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+  let loading: Promise<Map<string, RegistryEntry>> | null = null;
+  let timer: unknown = null;
+  let active = false;
+
+  const statusOf = (record: RegistryEntry['record'], at: number): IssuedAuthKeyStatus => {
+    if (record.revokedAt !== null) {
+      return 'revoked';
+    }
+
+    if (record.expiration !== null && Date.parse(record.expiration) <= at) {
+      return 'expired';
+    }
+
+    return record.used ? 'used' : 'unused';
+  };
+
+  const snapshot = (record: RegistryEntry['record'], at: number): IssuedAuthKey =>
+    Object.freeze({ ...record, status: statusOf(record, at) });
+
+  // 缓存加载中的 Promise：并发的首次调用共享同一份记录表，不会各自读取后互相覆盖；读取失败时清除，下次调用重试。
+  const loadEntries = async (): Promise<Map<string, RegistryEntry>> => {
+    loading ??= readEntries(options.statePath).catch((error: unknown) => {
+      loading = null;
+      throw error;
+    });
+    return loading;
+  };
+
+  const saveEntries = async (): Promise<void> => {
+    const keys = [...(await loadEntries()).values()]
+      .map((entry) => entry.record)
+      .sort((a, b) => a.issuedAt - b.issuedAt || a.id.localeCompare(b.id));
+    await writeFileIfChanged(options.statePath, `${JSON.stringify({ keys }, null, 2)}\n`);
+  };
+
+  const record = async (key: HeadscalePreAuthKey, context: IssuedAuthKeyContext): Promise<IssuedAuthKey> => {
+    const stored: RegistryEntry['record'] = {
+      id: key.id,
+      user: key.user,
+      aclTags: key.aclTags,
+      reusable: key.reusable,
+      ephemeral: key.ephemeral,
+      caller: context.caller,
+      traceId: context.traceId ?? null,
+      issuedAt: now(),
+      expiration: key.expiration,
+      used: key.used,
+      revokedAt: null,
+      revokeReason: null,
+    };
+    (await loadEntries()).set(key.id, { record: stored, secret: key.key });
+    await saveEntries();
+    return snapshot(stored, now());
+  };
+
+  /**
+   * 按用户批量拉取 Headscale 中的密钥状态，同步 used 与过期时间。
+   */
+  const refresh = async (): Promise<void> => {
+    const entries = await loadEntries();
+    const client = options.getClient();
+    if (!client) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const users = new Set([...entries.values()].map((entry) => entry.record.user));
+    for (const user of users) {
+      const remote = new Map((await client.listAuthKeys(user)).map((key) => [key.id, key]));
+      for (const entry of entries.values()) {
+        const current = remote.get(entry.record.id);
+        if (entry.record.user === user && current) {
+          entry.record = {
+            ...entry.record,
+            used: current.used,
+            expiration: current.expiration ?? entry.record.expiration,
+          };
+        }
+      }
+    }
+    await saveEntries();
+  };
+
+  const list = async (filter: AuthKeyListFilter = {}): Promise<AuthKeyListResult> => {
+    let refreshError: string | null = null;
+    try {
+      await refresh();
+    } catch (error) {
+      refreshError = describeError(error);
+    }
+
+    const at = now();
+    const keys = [...(await loadEntries()).values()]
+      .map((entry) => snapshot(entry.record, at))
+      .filter((key) => (!filter.user || key.user === filter.user) && (!filter.status || key.status === filter.status));
+    return { keys, refreshError };
+  };
+
+  const lookupSecret = async (client: HeadscaleClient, stored: StoredAuthKey): Promise<string> => {
+    const remote = (await client.listAuthKeys(stored.user)).find((key) => key.id === stored.id);
+    if (!remote) {
+      throw new PluginError('NOT_FOUND', `Auth key no longer exists in Headscale: ${stored.id}`);
+    }
+    return remote.key;
+  };
+
+  const revoke = async (id: string, reason: 'manual' | 'sweep' = 'manual'): Promise<IssuedAuthKey> => {
+    const entry = (await loadEntries()).get(id);
+    if (!entry) {
+      throw new PluginError('NOT_FOUND', `Auth key not issued by this plugin: ${id}`);
+    }
+
+    const at = now();
+    if (statusOf(entry.record, at) === 'revoked') {
+      return snapshot(entry.record, at);
+    }
+
+    const client = options.getClient();
+    if (!client) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const secret = entry.secret ?? (await lookupSecret(client, entry.record));
+    await client.expireAuthKey({ user: entry.record.user, key: secret });
+    entry.record = { ...entry.record, revokedAt: at, revokeReason: reason };
+    await saveEntries();
+    return snapshot(entry.record, at);
+  };
+
+  const prune = async (at: number): Promise<void> => {
+    const entries = await loadEntries();
+    for (const [id, entry] of entries) {
+      if (statusOf(entry.record, at) !== 'unused' && at - entry.record.issuedAt > retentionMs) {
+        entries.delete(id);
+      }
+    }
+    await saveEntries();
+  };
+
+  const sweep = async (): Promise<AuthKeySweepResult> => {
+    try {
+      await refresh();
+    } catch {
+      // Headscale 不可达时本轮只清理本地终态记录，下个周期再同步。
+    }
+
+    const at = now();
+    const revoked: string[] = [];
+    const failed: Array<{ id: string; error: string }> = [];
+    for (const entry of [...(await loadEntries()).values()]) {
+      if (statusOf(entry.record, at) !== 'unused' || at - entry.record.issuedAt < options.maxUnusedAgeMs) {
+        continue;
+      }
+
+      try {
+        await revoke(entry.record.id, 'sweep');
+        revoked.push(entry.record.id);
+      } catch (error) {
+        failed.push({ id: entry.record.id, error: describeError(error) });
+      }
+    }
+
+    await prune(at);
+    return { revoked, failed };
+  };
+
+  const schedule = (): void => {
+    timer = setTimer(() => {
+      timer = null;
+      void sweep()
+        .catch((error: unknown) => options.onSweepError?.(error))
+        .finally(() => {
+          if (active) {
+            schedule();
+          }
+        });
+    }, options.sweepIntervalMs);
+  };
+
+  const start = (): void => {
+    if (active) {
+      return;
+    }
+
+    active = true;
+    schedule();
+  };
+
+  const stop = (): void => {
+    active = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+  };
+
+  return Object.freeze({
+    record,
+    list,
+    revoke,
+    sweep,
+    start,
+    stop,
+  });
+};
+
+export type AuthKeyRegistry = ReturnType<typeof createAuthKeyRegistry>;
@@ -0,0 +1,92 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerSnapshot = Readonly<{
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  nextAttemptAt: number | null;
+}>;
+
+export type CircuitBreakerOptions = Readonly<{
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+  now?: () => number;
+}>;
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * 逻辑块：连续失败熔断器。
+ * - closed：正常放行，连续失败达到阈值后转 open。
+ * - open：在 resetTimeout 内直接拒绝，避免 Headscale 抖动时请求堆积。
+ * - half-open：冷却结束后只放行一个探测请求，成功则闭合，失败则重新打开。
+ */
+export const createCircuitBreaker = (options: CircuitBreakerOptions = {}) => {
+  const failureThreshold =
+    typeof options.failureThreshold === 'number' && options.failureThreshold > 0
+      ? Math.floor(options.failureThreshold)
+      : DEFAULT_FAILURE_THRESHOLD;
+  const resetTimeoutMs =
+    typeof options.resetTimeoutMs === 'number' && options.resetTimeoutMs > 0
+      ? Math.floor(options.resetTimeoutMs)
+      : DEFAULT_RESET_TIMEOUT_MS;
+  const now = options.now ?? (() => Date.now());
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const tryAcquire = (): boolean => {
+    if (state === 'closed') {
+      return true;
+    }
+
+    if (state === 'open') {
+      if (openedAt !== null && now() - openedAt < resetTimeoutMs) {
+        return false;
+      }
+      state = 'half-open';
+      trialInFlight = false;
+    }
+
+    if (trialInFlight) {
+      return false;
+    }
+
+    trialInFlight = true;
+    return true;
+  };
+
+  const recordSuccess = (): void => {
+    state = 'closed';
+    consecutiveFailures = 0;
+    openedAt = null;
+    trialInFlight = false;
+  };
+
+  const recordFailure = (): void => {
+    consecutiveFailures += 1;
+    trialInFlight = false;
+
+    if (state === 'half-open' || consecutiveFailures >= failureThreshold) {
+      state = 'open';
+      openedAt = now();
+    }
+  };
+
+  return Object.freeze({
+    tryAcquire,
+    recordSuccess,
+    recordFailure,
+    getSnapshot: (): CircuitBreakerSnapshot => ({
+      state,
+      consecutiveFailures,
+      openedAt,
+      nextAttemptAt: state === 'open' && openedAt !== null ? openedAt + resetTimeoutMs : null,
+    }),
+  });
+};
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
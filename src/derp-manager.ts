@@ -1,3 +1,18 @@
+import { createHash } from 'node:crypto';
+import { watch } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import type { DerpProbeStats, DerpProber } from './derp-prober';
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+import {
+  DerpValidationError,
+  findDerpNodeConflicts,
+  validateDerpNode,
+  validateDerpNodes,
+  type DerpNodeIssue,
+} from './derp-validation';
+import { renderYamlDocument, type YamlValue } from './headscale-config';
+import type { RemoteDerpSource, RemoteDerpSourceStatus } from './derp-source';
+
 export type DerpMode = 'self-hosted-only' | 'public-only' | 'hybrid';
 
 export type DerpNode = Readonly<{
@@ -6,25 +21,61 @@ export type DerpNode = Readonly<{
   name: string;
   hostName: string;
   ipv4?: string;
+  ipv6?: string;
   stunPort: number;
   derpPort: number;
+  // 区域级元数据随节点携带；同一区域内以第一个给出该字段的节点为准。
+  regionCode?: string;
+  regionName?: string;
+  avoid?: boolean;
+  certName?: string;
+  stunOnly?: boolean;
+  canPort80?: boolean;
+  insecureForTests?: boolean;
+}>;
+
+// 字段名与顺序与 tailcfg.DERPNode 的 JSON 编码一致，布尔与可选字符串按 omitempty 省略。
+export type DerpMapNode = Readonly<{
+  Name: string;
+  RegionID: number;
+  HostName: string;
+  CertName?: string;
+  IPv4?: string;
+  IPv6?: string;
+  STUNPort: number;
+  STUNOnly?: boolean;
+  DERPPort: number;
+  InsecureForTests?: boolean;
+  CanPort80?: boolean;
 }>;
 
 export type DerpRegion = Readonly<{
   RegionID: number;
   RegionCode: string;
-  Nodes: ReadonlyArray<{
-    Name: string;
-    RegionID: number;
-    HostName: string;
-    IPv4?: string;
-    STUNPort: number;
-    RelayPort: number;
-  }>;
+  RegionName: string;
+  Avoid?: boolean;
+  Nodes: ReadonlyArray<DerpMapNode>;
 }>;
 
 export type DerpMap = Readonly<{
   Regions: Record<string, DerpRegion>;
+  OmitDefaultRegions?: boolean;
+}>;
+
+export type DerpPublicSourceStatus = Readonly<{
+  path: string;
+  hash: string | null;
+  loadedAt: number | null;
+  nodeCount: number;
+  error: string | null;
+}>;
+
+export type DerpStatus = Readonly<{
+  mode: DerpMode;
+  activeNodeId: string | null;
+  lastSwitchAt: number | null;
+  publicSource: DerpPublicSourceStatus | null;
+  remoteSource: RemoteDerpSourceStatus | null;
 }>;
 
 export type DerpConfig = Readonly<{
@@ -33,47 +84,130 @@ export type DerpConfig = Readonly<{
   publicNodes?: DerpNode[];
   publicNodesPath?: string;
   cooldownMs?: number;
+  // 为 true 时客户端不再合并 Tailscale 默认 DERP 区域，只使用本 map。
+  omitDefaultRegions?: boolean;
 }>;
 
 type DerpManagerOptions = Readonly<{
   config: DerpConfig;
   readText?: (path: string) => Promise<string>;
   now?: () => number;
+  prober?: DerpProber;
+  // 配置了远程 DERP map 时由调用方创建；优先级高于 publicNodesPath，低于内联 publicNodes。
+  remoteSource?: RemoteDerpSource;
+  watch?: (path: string, onChange: () => void) => () => void;
+  onDerpMapChange?: (map: DerpMap) => void;
 }>;
 
+type PublicSourceState = {
+  hash: string | null;
+  nodes: DerpNode[] | null;
+  loadedAt: number | null;
+  error: string | null;
+};
+
 const DEFAULT_COOLDOWN_MS = 10_000;
+const DERP_MAP_HEADER = '# Generated by com.meristem.mnet from the DERP map. Manual edits will be overwritten.\n';
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null && !Array.isArray(value);
 
-const parseNode = (value: unknown): DerpNode | null => {
+const DEFAULT_STUN_PORT = 3478;
+const DEFAULT_DERP_PORT = 443;
+
+// 扁平字段在 Tailscale DERPMap 中对应的字段名；区域级字段指向所在区域。
+const TAILSCALE_NODE_FIELDS: Readonly<Record<string, string>> = {
+  id: 'Name',
+  name: 'Name',
+  hostName: 'HostName',
+  regionId: 'RegionID',
+  stunPort: 'STUNPort',
+  derpPort: 'DERPPort',
+  ipv4: 'IPv4',
+  ipv6: 'IPv6',
+  certName: 'CertName',
+  stunOnly: 'STUNOnly',
+  canPort80: 'CanPort80',
+  insecureForTests: 'InsecureForTests',
+};
+const TAILSCALE_REGION_FIELDS: Readonly<Record<string, string>> = {
+  regionCode: 'RegionCode',
+  regionName: 'RegionName',
+  avoid: 'Avoid',
+};
+
+/**
+ * Tailscale/Headscale 原生 DERPMap 节点转为扁平格式后交给同一个校验器：端口为 0 表示默认端口，
+ * IPv4/IPv6 为 "none" 表示不使用该地址族；区域元数据（RegionCode/RegionName/Avoid）下沉到节点上，生成 map 时再聚合回区域。
+ */
+const fromTailscaleNode = (value: unknown, region: Readonly<Record<string, unknown>>, regionId: number): unknown => {
   if (!isRecord(value)) {
-    return null;
+    return value;
   }
 
-  const id = typeof value.id === 'string' ? value.id : null;
-  const regionId = typeof value.regionId === 'number' ? value.regionId : null;
-  const name = typeof value.name === 'string' ? value.name : null;
-  const hostName = typeof value.hostName === 'string' ? value.hostName : null;
-  const stunPort = typeof value.stunPort === 'number' ? value.stunPort : null;
-  const derpPort = typeof value.derpPort === 'number' ? value.derpPort : null;
-
-  if (!id || regionId === null || !name || !hostName || stunPort === null || derpPort === null) {
-    return null;
-  }
+  const port = (raw: unknown, fallback: number): unknown => (raw === undefined || raw === 0 ? fallback : raw);
+  const address = (raw: unknown): unknown => (raw === 'none' ? undefined : raw);
 
   return {
-    id,
-    regionId,
-    name,
-    hostName,
-    ipv4: typeof value.ipv4 === 'string' ? value.ipv4 : undefined,
-    stunPort,
-    derpPort,
+    id: value.Name,
+    regionId: value.RegionID ?? regionId,
+    name: value.Name,
+    hostName: value.HostName,
+    stunPort: port(value.STUNPort, DEFAULT_STUN_PORT),
+    derpPort: port(value.DERPPort, DEFAULT_DERP_PORT),
+    ipv4: address(value.IPv4),
+    ipv6: address(value.IPv6),
+    regionCode: region.RegionCode === '' ? undefined : region.RegionCode,
+    regionName: region.RegionName === '' ? undefined : region.RegionName,
+    avoid: region.Avoid,
+    certName: value.CertName === '' ? undefined : value.CertName,
+    stunOnly: value.STUNOnly,
+    canPort80: value.CanPort80,
+    insecureForTests: value.InsecureForTests,
   };
 };
 
-const parseNodesFromJson = (raw: string): DerpNode[] => {
+const parseTailscaleDerpMap = (regions: Record<string, unknown>, source: string): DerpNode[] => {
+  const nodes: DerpNode[] = [];
+  const paths: string[] = [];
+  const issues: DerpNodeIssue[] = [];
+
+  for (const [key, region] of Object.entries(regions)) {
+    const regionPath = `$.Regions.${key}`;
+    const regionId = isRecord(region) && typeof region.RegionID === 'number' ? region.RegionID : Number(key);
+    if (!isRecord(region) || !Array.isArray(region.Nodes) || !Number.isInteger(regionId)) {
+      issues.push({ source, path: regionPath, message: 'must be a region with an integer RegionID and a Nodes array' });
+      continue;
+    }
+
+    region.Nodes.forEach((item, index) => {
+      const path = `${regionPath}.Nodes[${index}]`;
+      const result = validateDerpNode(fromTailscaleNode(item, region, regionId), path, source, (field) =>
+        field in TAILSCALE_REGION_FIELDS
+          ? `${regionPath}.${TAILSCALE_REGION_FIELDS[field]}`
+          : `${path}.${TAILSCALE_NODE_FIELDS[field] ?? field}`,
+      );
+      issues.push(...result.issues);
+      if (result.node) {
+        nodes.push(result.node);
+        paths.push(path);
+      }
+    });
+  }
+
+  issues.push(...findDerpNodeConflicts([{ source, paths, nodes }]));
+  if (issues.length > 0) {
+    throw new DerpValidationError(issues);
+  }
+
+  return nodes;
+};
+
+/**
+ * 解析公共 DERP 源：插件自身的节点数组 / `{ nodes: [] }`，或 Tailscale/Headscale 原生 DERPMap（`Regions` -> `Nodes`）。
+ * 所有节点经严格校验，任一问题都会以 DerpValidationError 抛出，错误中列出每个问题的来源与 JSON 路径。
+ */
+export const parseDerpNodes = (raw: string, source = 'public DERP source'): DerpNode[] => {
   let parsed: unknown;
   try {
     parsed = JSON.parse(raw);
@@ -81,92 +215,179 @@ const parseNodesFromJson = (raw: string): DerpNode[] => {
     throw new Error('Invalid public DERP config JSON');
   }
 
-  const source = Array.isArray(parsed)
-    ? parsed
-    : isRecord(parsed) && Array.isArray(parsed.nodes)
-      ? parsed.nodes
-      : null;
+  if (isRecord(parsed) && isRecord(parsed.Regions)) {
+    return parseTailscaleDerpMap(parsed.Regions, source);
+  }
 
-  if (!source) {
-    throw new Error('Public DERP config must be an array or { nodes: [] }');
+  const nested = isRecord(parsed) && Array.isArray(parsed.nodes);
+  const items = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.nodes) ? parsed.nodes : null;
+  if (!items) {
+    throw new Error('Public DERP config must be an array, { nodes: [] } or a DERPMap { Regions: {} }');
   }
 
-  const nodes: DerpNode[] = [];
-  for (const item of source) {
-    const node = parseNode(item);
-    if (!node) {
-      throw new Error('Public DERP config contains invalid node item');
-    }
-    nodes.push(node);
+  const result = validateDerpNodes(items, source, (index) => (nested ? `$.nodes[${index}]` : `$[${index}]`));
+  if (result.issues.length > 0) {
+    throw new DerpValidationError(result.issues);
   }
 
-  return nodes;
+  return result.nodes;
 };
 
 const defaultReadText = async (path: string): Promise<string> => readFile(path, 'utf-8');
 
-const dedupeNodes = (nodes: readonly DerpNode[]): DerpNode[] => {
-  const byId = new Map<string, DerpNode>();
-  for (const node of nodes) {
-    byId.set(node.id, node);
-  }
-  return [...byId.values()];
+/**
+ * 监听所在目录而不是文件本身：原子写入会替换 inode，直接监听文件在第一次替换后就收不到事件。
+ */
+const defaultWatch = (path: string, onChange: () => void): (() => void) => {
+  const watcher = watch(dirname(path), (_event, filename) => {
+    if (filename === null || filename === basename(path)) {
+      onChange();
+    }
+  });
+  return () => watcher.close();
 };
 
-const groupNodesAsDerpMap = (nodes: readonly DerpNode[]): DerpMap => {
-  const regions: Record<string, DerpRegion> = {};
+/**
+ * hybrid 模式同时下发自建与公共节点，跨来源的 ID/端点冲突必须在公共节点集合替换前拒绝，
+ * 否则冲突集合一旦生效，之后每次生成 map 与选路都会失败。其他模式只使用其中一组，不检查。
+ */
+export const assertPublicNodesCompatible = (
+  config: Pick<DerpConfig, 'mode' | 'selfHostedNodes'>,
+  publicNodes: readonly DerpNode[],
+): void => {
+  if (config.mode !== 'hybrid') {
+    return;
+  }
+
+  const conflicts = findDerpNodeConflicts([
+    {
+      source: 'selfHostedNodes',
+      paths: config.selfHostedNodes.map((node) => `[id=${node.id}]`),
+      nodes: config.selfHostedNodes,
+    },
+    { source: 'publicNodes', paths: publicNodes.map((node) => `[id=${node.id}]`), nodes: publicNodes },
+  ]);
+  if (conflicts.length > 0) {
+    throw new DerpValidationError(conflicts);
+  }
+};
 
+const toMapNode = (node: DerpNode): DerpMapNode => ({
+  Name: node.name,
+  RegionID: node.regionId,
+  HostName: node.hostName,
+  ...(node.certName ? { CertName: node.certName } : {}),
+  ...(node.ipv4 ? { IPv4: node.ipv4 } : {}),
+  ...(node.ipv6 ? { IPv6: node.ipv6 } : {}),
+  STUNPort: node.stunPort,
+  ...(node.stunOnly ? { STUNOnly: true } : {}),
+  DERPPort: node.derpPort,
+  ...(node.insecureForTests ? { InsecureForTests: true } : {}),
+  ...(node.canPort80 ? { CanPort80: true } : {}),
+});
+
+const compareText = (left: string, right: string): number => (left < right ? -1 : left > right ? 1 : 0);
+
+/**
+ * 逻辑块：按区域聚合节点生成 DERP map。
+ * - 区域按 RegionID 数值升序、区域内节点按 Name 排序，输出与节点来源顺序无关，diff 只反映真实变化。
+ * - 区域元数据取区域内第一个给出该字段的节点；未给出时 RegionCode 回落为 `region-<id>`，RegionName 回落为 RegionCode。
+ */
+export const groupNodesAsDerpMap = (nodes: readonly DerpNode[], omitDefaultRegions = false): DerpMap => {
+  const byRegion = new Map<number, DerpNode[]>();
   for (const node of nodes) {
-    const key = String(node.regionId);
-    const existing = regions[key];
-    if (!existing) {
-      regions[key] = {
-        RegionID: node.regionId,
-        RegionCode: `region-${node.regionId}`,
-        Nodes: [
-          {
-            Name: node.name,
-            RegionID: node.regionId,
-            HostName: node.hostName,
-            IPv4: node.ipv4,
-            STUNPort: node.stunPort,
-            RelayPort: node.derpPort,
-          },
-        ],
-      };
-      continue;
-    }
+    byRegion.set(node.regionId, [...(byRegion.get(node.regionId) ?? []), node]);
+  }
 
-    regions[key] = {
-      ...existing,
-      Nodes: [
-        ...existing.Nodes,
-        {
-          Name: node.name,
-          RegionID: node.regionId,
-          HostName: node.hostName,
-          IPv4: node.ipv4,
-          STUNPort: node.stunPort,
-          RelayPort: node.derpPort,
-        },
-      ],
+  const regions: Record<string, DerpRegion> = {};
+  for (const [regionId, regionNodes] of [...byRegion].sort(([left], [right]) => left - right)) {
+    const regionCode = regionNodes.find((node) => node.regionCode)?.regionCode ?? `region-${regionId}`;
+    regions[String(regionId)] = {
+      RegionID: regionId,
+      RegionCode: regionCode,
+      RegionName: regionNodes.find((node) => node.regionName)?.regionName ?? regionCode,
+      ...(regionNodes.some((node) => node.avoid) ? { Avoid: true } : {}),
+      Nodes: regionNodes.map(toMapNode).sort((left, right) => compareText(left.Name, right.Name)),
     };
   }
 
   return {
     Regions: regions,
+    ...(omitDefaultRegions ? { OmitDefaultRegions: true } : {}),
   };
 };
 
-const sortByLatency = (
-  nodes: readonly DerpNode[],
-  metrics: Readonly<Record<string, number>>,
-): DerpNode[] =>
-  [...nodes].sort((left, right) => {
-    const leftLatency = metrics[left.id] ?? Number.MAX_SAFE_INTEGER;
-    const rightLatency = metrics[right.id] ?? Number.MAX_SAFE_INTEGER;
-    return leftLatency - rightLatency;
-  });
+const lowercaseKeys = (value: unknown): YamlValue => {
+  if (Array.isArray(value)) {
+    return value.map(lowercaseKeys);
+  }
+
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key.toLowerCase(), lowercaseKeys(item)]),
+    );
+  }
+
+  return value as YamlValue;
+};
+
+/**
+ * 渲染 Headscale `derp.paths` 文件：Headscale 用 yaml.v3 解码 tailcfg.DERPMap，
+ * 该结构体没有 yaml 标签，字段名按小写匹配（regions/regionid/derpport…），JSON 形式的大写字段会被静默忽略。
+ */
+export const renderDerpMapYaml = (map: DerpMap): string => renderYamlDocument(lowercaseKeys(map));
+
+/**
+ * `.json` 路径输出 JSON（同样使用小写字段名，yaml.v3 可直接解码），其余路径输出带生成标记的 YAML。
+ */
+export const renderDerpMapFile = (path: string, map: DerpMap): string =>
+  path.endsWith('.json')
+    ? `${JSON.stringify(lowercaseKeys(map), null, 2)}\n`
+    : `${DERP_MAP_HEADER}${renderDerpMapYaml(map)}`;
+
+/**
+ * 渲染并原子写入 `derp.paths` 文件，返回内容是否变化。
+ */
+export const writeDerpMapFile = async (path: string, map: DerpMap): Promise<boolean> =>
+  writeFileIfChanged(path, renderDerpMapFile(path, map));
+
+/**
+ * 逻辑块：同步 `derp.paths` 文件。
+ * - 能生成 map 时写入最新 map，返回内容是否变化。
+ * - 生成失败时保留已有文件（最后一次成功的 map）；文件尚不存在时先写入不含区域的占位 map，
+ *   保证加入 derp.paths 的路径始终可解析，之后的成功写入由 Headscale 的 DERP 定期刷新读取。
+ * - 生成错误在占位写入后原样抛出，由调用方记录。
+ */
+export const refreshDerpMapFile = async (path: string, build: () => Promise<DerpMap>): Promise<boolean> => {
+  let map: DerpMap;
+  try {
+    map = await build();
+  } catch (error) {
+    if ((await readTextIfExists(path)) === null) {
+      await writeDerpMapFile(path, { Regions: {} });
+    }
+    throw error;
+  }
+
+  return writeDerpMapFile(path, map);
+};
+
+/**
+ * 仅 STUN 的节点不能承载中继流量，不参与选路；标记 Avoid 的区域排在其他节点之后，与客户端选择 home DERP 的策略一致。
+ */
+const sortByLatency = (nodes: readonly DerpNode[], metrics: Readonly<Record<string, number>>): DerpNode[] =>
+  nodes
+    .filter((node) => !node.stunOnly)
+    .sort((left, right) => {
+      if (Boolean(left.avoid) !== Boolean(right.avoid)) {
+        return left.avoid ? 1 : -1;
+      }
+      const leftLatency = metrics[left.id] ?? Number.MAX_SAFE_INTEGER;
+      const rightLatency = metrics[right.id] ?? Number.MAX_SAFE_INTEGER;
+      return leftLatency - rightLatency;
+    });
 
 export const createDerpManager = (options: DerpManagerOptions) => {
   const readText = options.readText ?? defaultReadText;
@@ -176,24 +397,93 @@ export const createDerpManager = (options: DerpManagerOptions) => {
       ? Math.floor(options.config.cooldownMs)
       : DEFAULT_COOLDOWN_MS;
 
+  const watchPath = options.watch ?? defaultWatch;
+  const hasInlinePublic = Array.isArray(options.config.publicNodes) && options.config.publicNodes.length > 0;
+  const remoteSource = hasInlinePublic ? null : (options.remoteSource ?? null);
+  const publicPath =
+    !hasInlinePublic &&
+    !remoteSource &&
+    typeof options.config.publicNodesPath === 'string' &&
+    options.config.publicNodesPath.length > 0
+      ? options.config.publicNodesPath
+      : null;
+
   let activeNodeId: string | null = null;
   let lastSwitchAt = 0;
+  const source: PublicSourceState = { hash: null, nodes: null, loadedAt: null, error: null };
+  let reloading: Promise<boolean> | null = null;
+  let unwatch: (() => void) | null = null;
+
+  /**
+   * 逻辑块：公共 DERP 文件热加载。
+   * - 只在内容哈希变化时解析；解析、校验以及与自建节点的冲突检查全部通过后才整体替换节点集合。
+   * - 失败时继续使用上一次成功加载的节点集合（last-known-good），错误记录在状态中；
+   *   从未成功加载过时才向调用方抛出。
+   * - 已有节点集合被替换时通知 onDerpMapChange；并发的重载请求合并为一次。
+   */
+  const reloadPublicSource = async (path: string): Promise<boolean> => {
+    const raw = await readText(path);
+    const hash = createHash('sha256').update(raw).digest('hex');
+    if (hash === source.hash && source.nodes) {
+      source.error = null;
+      return false;
+    }
+
+    const nodes = parseDerpNodes(raw, path);
+    if (nodes.length === 0) {
+      throw new Error('Public DERP config contains no nodes');
+    }
+    assertPublicNodesCompatible(options.config, nodes);
+
+    const replaced = source.nodes !== null;
+    Object.assign(source, { hash, nodes, loadedAt: now(), error: null });
+    return replaced;
+  };
+
+  const reloadPublicNodes = async (): Promise<boolean> => {
+    if (!publicPath) {
+      return false;
+    }
+
+    reloading ??= reloadPublicSource(publicPath)
+      .catch((error: unknown) => {
+        source.error = error instanceof Error ? error.message : String(error);
+        if (!source.nodes) {
+          throw error;
+        }
+        return false;
+      })
+      .finally(() => {
+        reloading = null;
+      });
+
+    return reloading;
+  };
 
   const loadPublicNodes = async (): Promise<DerpNode[]> => {
-    if (Array.isArray(options.config.publicNodes) && options.config.publicNodes.length > 0) {
-      return dedupeNodes(options.config.publicNodes);
+    if (hasInlinePublic) {
+      const nodes = options.config.publicNodes ?? [];
+      assertPublicNodesCompatible(options.config, nodes);
+      return nodes;
     }
 
-    if (typeof options.config.publicNodesPath === 'string' && options.config.publicNodesPath.length > 0) {
-      const raw = await readText(options.config.publicNodesPath);
-      return dedupeNodes(parseNodesFromJson(raw));
+    if (remoteSource) {
+      return remoteSource.getNodes();
     }
 
-    return [];
+    if (!publicPath) {
+      return [];
+    }
+
+    if (!source.nodes) {
+      await reloadPublicNodes();
+    }
+
+    return source.nodes ?? [];
   };
 
   const resolveNodesByMode = async (): Promise<DerpNode[]> => {
-    const selfHosted = dedupeNodes(options.config.selfHostedNodes);
+    const selfHosted = options.config.selfHostedNodes;
     const publicNodes = await loadPublicNodes();
 
     if (options.config.mode === 'self-hosted-only') {
@@ -211,40 +501,116 @@ export const createDerpManager = (options: DerpManagerOptions) => {
       throw new Error('hybrid mode requires non-empty public DERP source');
     }
 
-    return dedupeNodes([...selfHosted, ...publicNodes]);
+    // 公共节点在替换前已通过与自建节点的冲突检查，这里可以直接合并。
+    return [...selfHosted, ...publicNodes];
+  };
+
+  /**
+   * 未显式传入指标时使用探测器的滚动窗口指标；既无指标也无探测器时按节点顺序选择。
+   */
+  const selectRelayNode = async (
+    latencyMetrics: Readonly<Record<string, number>> = options.prober?.getLatencyMetrics() ?? {},
+  ): Promise<DerpNode | null> => {
+    const nodes = await resolveNodesByMode();
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    const ordered = sortByLatency(nodes, latencyMetrics);
+    const next = ordered[0];
+    if (!next) {
+      return null;
+    }
+
+    const currentTs = now();
+    if (activeNodeId && activeNodeId !== next.id && currentTs - lastSwitchAt < cooldownMs) {
+      const current = nodes.find((item) => item.id === activeNodeId);
+      if (current) {
+        return current;
+      }
+    }
+
+    if (activeNodeId !== next.id) {
+      activeNodeId = next.id;
+      lastSwitchAt = currentTs;
+    }
+
+    return next;
   };
 
   return Object.freeze({
+    getStatus: (): DerpStatus => ({
+      mode: options.config.mode,
+      activeNodeId,
+      lastSwitchAt: activeNodeId ? lastSwitchAt : null,
+      publicSource: publicPath
+        ? {
+            path: publicPath,
+            hash: source.hash,
+            loadedAt: source.loadedAt,
+            nodeCount: source.nodes?.length ?? 0,
+            error: source.error,
+          }
+        : null,
+      remoteSource: remoteSource?.getStatus() ?? null,
+    }),
     buildDerpMap: async (): Promise<DerpMap> => {
       const nodes = await resolveNodesByMode();
-      return groupNodesAsDerpMap(nodes);
+      return groupNodesAsDerpMap(nodes, options.config.omitDefaultRegions);
     },
-    selectRelayNode: async (latencyMetrics: Readonly<Record<string, number>>): Promise<DerpNode | null> => {
-      const nodes = await resolveNodesByMode();
-      if (nodes.length === 0) {
-        return null;
-      }
+    selectRelayNode,
+    /**
+     * 周期探测当前模式下的全部节点，每轮结束后用最新指标重新选路。
+     */
+    startProbing: (): void => {
+      options.prober?.start(resolveNodesByMode, () => {
+        void selectRelayNode().catch(() => undefined);
+      });
+    },
+    stopProbing: (): void => {
+      options.prober?.stop();
+    },
+    getProbeStats: (): DerpProbeStats[] => options.prober?.getStats() ?? [],
+    reloadPublicNodes,
+    /**
+     * 监听公共 DERP 源：本地文件按变更事件重载，远程 map 按周期刷新；节点集合被替换后把新的 DERP map 交给 onDerpMapChange。
+     */
+    startWatching: (): void => {
+      const notify = (): void => {
+        void resolveNodesByMode()
+          .then((nodes) => options.onDerpMapChange?.(groupNodesAsDerpMap(nodes, options.config.omitDefaultRegions)))
+          .catch(() => undefined);
+      };
 
-      const ordered = sortByLatency(nodes, latencyMetrics);
-      const next = ordered[0];
-      if (!next) {
-        return null;
+      if (remoteSource) {
+        remoteSource.start(notify);
+        return;
       }
 
-      const currentTs = now();
-      if (activeNodeId && activeNodeId !== next.id && currentTs - lastSwitchAt < cooldownMs) {
-        const current = nodes.find((item) => item.id === activeNodeId);
-        if (current) {
-          return current;
-        }
+      if (!publicPath || unwatch) {
+        return;
       }
 
-      if (activeNodeId !== next.id) {
-        activeNodeId = next.id;
-        lastSwitchAt = currentTs;
-      }
+      const onChange = (): void => {
+        void reloadPublicNodes()
+          .then((replaced) => {
+            if (replaced) {
+              notify();
+            }
+          })
+          .catch(() => undefined);
+      };
 
-      return next;
+      try {
+        unwatch = watchPath(publicPath, onChange);
+      } catch (error) {
+        source.error = error instanceof Error ? error.message : String(error);
+      }
+    },
+    stopWatching: (): void => {
+      remoteSource?.stop();
+      unwatch?.();
+      unwatch = null;
     },
   });
 };
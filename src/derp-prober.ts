@@ -0,0 +1,286 @@
+import { randomBytes } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+import { connect, isIPv6 } from 'node:net';
+
+export type DerpProbeTarget = Readonly<{
+  id: string;
+  hostName: string;
+  ipv4?: string;
+  stunPort: number;
+  derpPort: number;
+  stunOnly?: boolean;
+}>;
+
+export type DerpProbeStats = Readonly<{
+  nodeId: string;
+  samples: number;
+  lossRate: number;
+  latencyMs: number | null;
+  lastLatencyMs: number | null;
+  derpReachable: boolean | null;
+  derpLatencyMs: number | null;
+  lastProbeAt: number | null;
+}>;
+
+export type DerpProbeFn = (host: string, port: number, timeoutMs: number) => Promise<number>;
+
+type DerpProberOptions = Readonly<{
+  windowSize?: number;
+  timeoutMs?: number;
+  intervalMs?: number;
+  probeStun?: DerpProbeFn;
+  probeDerp?: DerpProbeFn;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+type NodeWindow = {
+  samples: Array<number | null>;
+  lastLatencyMs: number | null;
+  // DERP 端口检查结果窗口；仅 STUN 的节点不检查，保持为空。
+  derpChecks: boolean[];
+  derpLatencyMs: number | null;
+  lastProbeAt: number | null;
+};
+
+const DEFAULT_WINDOW_SIZE = 10;
+const DEFAULT_TIMEOUT_MS = 2_000;
+const DEFAULT_INTERVAL_MS = 30_000;
+
+const STUN_BINDING_REQUEST = 0x0001;
+const STUN_BINDING_SUCCESS = 0x0101;
+const STUN_MAGIC_COOKIE = 0x2112a442;
+const STUN_HEADER_LENGTH = 20;
+
+const positiveInt = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+/**
+ * RFC 5389 Binding Request：20 字节头，无属性。
+ */
+export const encodeStunBindingRequest = (transactionId: Uint8Array): Buffer => {
+  const message = Buffer.alloc(STUN_HEADER_LENGTH);
+  message.writeUInt16BE(STUN_BINDING_REQUEST, 0);
+  message.writeUInt16BE(0, 2);
+  message.writeUInt32BE(STUN_MAGIC_COOKIE, 4);
+  Buffer.from(transactionId).copy(message, 8, 0, 12);
+  return message;
+};
+
+/**
+ * 只接受与请求事务 ID 一致的 Binding Success，避免把迟到的上一轮响应计入本轮延迟。
+ */
+export const isStunBindingSuccess = (message: Uint8Array, transactionId: Uint8Array): boolean => {
+  if (message.length < STUN_HEADER_LENGTH) {
+    return false;
+  }
+
+  const buffer = Buffer.from(message);
+  return (
+    buffer.readUInt16BE(0) === STUN_BINDING_SUCCESS &&
+    buffer.readUInt32BE(4) === STUN_MAGIC_COOKIE &&
+    buffer.subarray(8, 20).equals(Buffer.from(transactionId).subarray(0, 12))
+  );
+};
+
+/**
+ * 向 STUN 端口发送一次 Binding Request，返回往返耗时（毫秒）；超时或收到错误时抛出。
+ */
+export const probeStun: DerpProbeFn = (host, port, timeoutMs) =>
+  new Promise<number>((resolve, reject) => {
+    const socket = createSocket(isIPv6(host) ? 'udp6' : 'udp4');
+    const transactionId = randomBytes(12);
+    const startedAt = performance.now();
+    let settled = false;
+
+    const finish = (error: Error | null, latencyMs = 0): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(latencyMs);
+      }
+    };
+
+    const timer = setTimeout(() => finish(new Error(`STUN probe to ${host}:${port} timed out`)), timeoutMs);
+    socket.on('error', (error) => finish(error));
+    socket.on('message', (message) => {
+      if (isStunBindingSuccess(message, transactionId)) {
+        finish(null, performance.now() - startedAt);
+      }
+    });
+    socket.send(encodeStunBindingRequest(transactionId), port, host, (error) => {
+      if (error) {
+        finish(error);
+      }
+    });
+  });
+
+/**
+ * DERP 端口的 TCP 可达性检查，返回建连耗时（毫秒）。只验证端口可连，不做 TLS 握手，自签名证书的自建节点同样适用。
+ */
+export const probeDerpPort: DerpProbeFn = (host, port, timeoutMs) =>
+  new Promise<number>((resolve, reject) => {
+    const startedAt = performance.now();
+    const socket = connect({ host, port, timeout: timeoutMs });
+
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(performance.now() - startedAt);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`DERP probe to ${host}:${port} timed out`));
+    });
+    socket.once('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+
+const average = (values: readonly number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * 逻辑块：DERP 节点主动探测。
+ * - 每轮对每个节点并行发送 STUN Binding Request 并检查 DERP 端口可达性；STUN 失败记为一次丢包。
+ * - 每个节点保留最近 windowSize 个样本，延迟取窗口内成功样本的均值。
+ * - DERP 端口可达性同样按窗口判定：窗口内至少一半检查成功才算可达，单次抖动不会让节点在选路中反复进出。
+ * - 供选路使用的延迟按丢包折算：每个丢失样本相当于等待一次超时，DERP 端口不可达或窗口内全部丢包的节点不给出延迟。
+ * - 周期探测在上一轮结束后才安排下一轮，不会叠加；定时回调返回本轮的 Promise，注入的定时器可以等待一轮完成。
+ */
+export const createDerpProber = (options: DerpProberOptions = {}) => {
+  const windowSize = positiveInt(options.windowSize, DEFAULT_WINDOW_SIZE);
+  const timeoutMs = positiveInt(options.timeoutMs, DEFAULT_TIMEOUT_MS);
+  const intervalMs = positiveInt(options.intervalMs, DEFAULT_INTERVAL_MS);
+  const stun = options.probeStun ?? probeStun;
+  const derp = options.probeDerp ?? probeDerpPort;
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+
+  const windows = new Map<string, NodeWindow>();
+  let timer: unknown = null;
+  let active = false;
+
+  const settle = async (probe: Promise<number>): Promise<number | null> => probe.catch(() => null);
+
+  const probeNode = async (node: DerpProbeTarget): Promise<void> => {
+    const host = node.ipv4 ?? node.hostName;
+    // STUNPort 为 -1 的节点禁用了 STUN，只能以 DERP 端口建连耗时作为延迟样本。
+    const stunEnabled = node.stunPort > 0;
+    const [stunSample, derpLatency] = await Promise.all([
+      stunEnabled ? settle(stun(host, node.stunPort, timeoutMs)) : Promise.resolve(null),
+      node.stunOnly ? Promise.resolve(null) : settle(derp(node.hostName, node.derpPort, timeoutMs)),
+    ]);
+    const stunLatency = stunEnabled ? stunSample : derpLatency;
+
+    const window = windows.get(node.id) ?? {
+      samples: [],
+      lastLatencyMs: null,
+      derpChecks: [],
+      derpLatencyMs: null,
+      lastProbeAt: null,
+    };
+    window.samples = [...window.samples, stunLatency].slice(-windowSize);
+    window.lastLatencyMs = stunLatency;
+    window.derpChecks = node.stunOnly ? [] : [...window.derpChecks, derpLatency !== null].slice(-windowSize);
+    window.derpLatencyMs = derpLatency;
+    window.lastProbeAt = now();
+    windows.set(node.id, window);
+  };
+
+  /**
+   * 探测一轮；不在本轮节点列表中的节点窗口被丢弃，避免已移除节点继续参与选路。
+   */
+  const probeAll = async (nodes: readonly DerpProbeTarget[]): Promise<void> => {
+    const ids = new Set(nodes.map((node) => node.id));
+    for (const id of [...windows.keys()]) {
+      if (!ids.has(id)) {
+        windows.delete(id);
+      }
+    }
+
+    await Promise.all(nodes.map(probeNode));
+  };
+
+  const toStats = (nodeId: string, window: NodeWindow): DerpProbeStats => {
+    const successes = window.samples.filter((sample): sample is number => sample !== null);
+    const derpSuccesses = window.derpChecks.filter(Boolean).length;
+    return {
+      nodeId,
+      samples: window.samples.length,
+      lossRate: window.samples.length === 0 ? 0 : 1 - successes.length / window.samples.length,
+      latencyMs: average(successes),
+      lastLatencyMs: window.lastLatencyMs,
+      derpReachable: window.derpChecks.length === 0 ? null : derpSuccesses * 2 >= window.derpChecks.length,
+      derpLatencyMs: window.derpLatencyMs,
+      lastProbeAt: window.lastProbeAt,
+    };
+  };
+
+  const getStats = (): DerpProbeStats[] => [...windows].map(([nodeId, window]) => toStats(nodeId, window));
+
+  const getLatencyMetrics = (): Record<string, number> => {
+    const metrics: Record<string, number> = {};
+    for (const stats of getStats()) {
+      if (stats.latencyMs !== null && stats.derpReachable === true) {
+        metrics[stats.nodeId] = stats.latencyMs + stats.lossRate * timeoutMs;
+      }
+    }
+    return metrics;
+  };
+
+  const schedule = (
+    listNodes: () => Promise<readonly DerpProbeTarget[]>,
+    onRound: (() => void) | undefined,
+    delayMs: number,
+  ): void => {
+    timer = setTimer(() => {
+      timer = null;
+      return listNodes()
+        .then(probeAll)
+        .then(() => onRound?.())
+        .catch(() => undefined)
+        .finally(() => {
+          if (active) {
+            schedule(listNodes, onRound, intervalMs);
+          }
+        });
+    }, delayMs);
+  };
+
+  const start = (listNodes: () => Promise<readonly DerpProbeTarget[]>, onRound?: () => void): void => {
+    if (active) {
+      return;
+    }
+
+    // 首轮立即探测，选路不必等满一个周期才有数据。
+    active = true;
+    schedule(listNodes, onRound, 0);
+  };
+
+  const stop = (): void => {
+    active = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+  };
+
+  return Object.freeze({
+    probeAll,
+    getStats,
+    getLatencyMetrics,
+    start,
+    stop,
+  });
+};
+
+export type DerpProber = ReturnType<typeof createDerpProber>;
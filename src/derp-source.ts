@@ -0,0 +1,210 @@
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+import { parseDerpNodes, type DerpNode } from './derp-manager';
+
+type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type RemoteDerpSourceStatus = Readonly<{
+  url: string;
+  etag: string | null;
+  fetchedAt: number | null;
+  checkedAt: number | null;
+  nodeCount: number;
+  fromCache: boolean;
+  error: string | null;
+}>;
+
+type RemoteDerpSourceOptions = Readonly<{
+  url: string;
+  cachePath: string;
+  refreshIntervalMs: number;
+  timeoutMs?: number;
+  // 替换节点集合前的额外检查（如与自建节点的冲突）；抛出时保留上一次成功的集合。
+  checkNodes?: (nodes: readonly DerpNode[]) => void;
+  fetcher?: Fetcher;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+type CachedDerpMap = {
+  url: string;
+  etag: string | null;
+  fetchedAt: number;
+  body: string;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const readCache = async (path: string, url: string): Promise<CachedDerpMap | null> => {
+  const content = await readTextIfExists(path);
+  if (content === null) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<CachedDerpMap>;
+    if (parsed.url !== url || typeof parsed.body !== 'string' || typeof parsed.fetchedAt !== 'number') {
+      return null;
+    }
+    return {
+      url,
+      etag: typeof parsed.etag === 'string' ? parsed.etag : null,
+      fetchedAt: parsed.fetchedAt,
+      body: parsed.body,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 逻辑块：远程 DERP map 源。
+ * - 首次取节点时优先使用磁盘缓存，插件重启或上游暂时不可达时不必等待网络。
+ * - 周期刷新带 If-None-Match；304 只更新检查时间，200 的内容解析、校验与 checkNodes 全部通过后才替换并落盘。
+ * - 刷新失败保留上一次成功的节点集合，错误记录在状态中；从未取得过节点时才向调用方抛出。
+ */
+export const createRemoteDerpSource = (options: RemoteDerpSourceOptions) => {
+  const fetcher = options.fetcher ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const now = options.now ?? (() => Date.now());
+  const checkNodes = options.checkNodes ?? (() => undefined);
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+
+  let cached: CachedDerpMap | null = null;
+  let nodes: DerpNode[] | null = null;
+  let fromCache = false;
+  let checkedAt: number | null = null;
+  let error: string | null = null;
+  let refreshing: Promise<boolean> | null = null;
+  let timer: unknown = null;
+  let active = false;
+
+  const fetchRemote = async (): Promise<boolean> => {
+    const response = await fetcher(options.url, {
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    checkedAt = now();
+
+    if (response.status === 304 && nodes) {
+      error = null;
+      return false;
+    }
+
+    if (!response.ok) {
+      throw new Error(`DERP map fetch from ${options.url} failed with HTTP ${response.status}`);
+    }
+
+    const body = await response.text();
+    const parsed = parseDerpNodes(body, options.url);
+    if (parsed.length === 0) {
+      throw new Error('Public DERP map contains no nodes');
+    }
+    checkNodes(parsed);
+
+    const changed = nodes !== null && body !== cached?.body;
+    cached = { url: options.url, etag: response.headers.get('etag'), fetchedAt: now(), body };
+    nodes = parsed;
+    fromCache = false;
+    error = null;
+    await writeFileIfChanged(options.cachePath, `${JSON.stringify(cached, null, 2)}\n`);
+    return changed;
+  };
+
+  /**
+   * 立即向上游检查一次；返回节点集合是否被替换。并发调用合并为同一次请求。
+   */
+  const refresh = async (): Promise<boolean> => {
+    refreshing ??= fetchRemote()
+      .catch((reason: unknown) => {
+        error = reason instanceof Error ? reason.message : String(reason);
+        if (!nodes) {
+          throw reason;
+        }
+        return false;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+
+    return refreshing;
+  };
+
+  const getNodes = async (): Promise<DerpNode[]> => {
+    if (nodes) {
+      return nodes;
+    }
+
+    const stored = await readCache(options.cachePath, options.url);
+    if (stored) {
+      try {
+        const parsed = parseDerpNodes(stored.body, options.url);
+        checkNodes(parsed);
+        nodes = parsed;
+        cached = stored;
+        fromCache = true;
+        return nodes;
+      } catch {
+        // 缓存内容损坏或与当前配置冲突时直接回到网络获取。
+      }
+    }
+
+    await refresh();
+    return nodes ?? [];
+  };
+
+  const schedule = (onChange: () => void, delayMs: number): void => {
+    timer = setTimer(() => {
+      timer = null;
+      void refresh()
+        .then((changed) => {
+          if (changed) {
+            onChange();
+          }
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          if (active) {
+            schedule(onChange, options.refreshIntervalMs);
+          }
+        });
+    }, delayMs);
+  };
+
+  const start = (onChange: () => void): void => {
+    if (active) {
+      return;
+    }
+
+    // 首次立即校验，使启动时从磁盘缓存取得的旧 map 尽快更新。
+    active = true;
+    schedule(onChange, 0);
+  };
+
+  const stop = (): void => {
+    active = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+  };
+
+  return Object.freeze({
+    getNodes,
+    refresh,
+    start,
+    stop,
+    getStatus: (): RemoteDerpSourceStatus => ({
+      url: options.url,
+      etag: cached?.etag ?? null,
+      fetchedAt: cached?.fetchedAt ?? null,
+      checkedAt,
+      nodeCount: nodes?.length ?? 0,
+      fromCache,
+      error,
+    }),
+  });
+};
+
+export type RemoteDerpSource = ReturnType<typeof createRemoteDerpSource>;
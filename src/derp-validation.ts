@@ -0,0 +1,200 @@
+import { isIPv4, isIPv6 } from 'node:net';
+import type { DerpNode } from './derp-manager';
+import { isDomainName } from './headscale-config';
+
+export type DerpNodeIssue = Readonly<{
+  // 节点来源：插件配置键（derpSelfHosted/derpPublic）、公共 DERP 文件路径或远程 URL。
+  source: string;
+  path: string;
+  message: string;
+}>;
+
+export type DerpNodeValidation = Readonly<{
+  nodes: DerpNode[];
+  issues: DerpNodeIssue[];
+}>;
+
+export type DerpNodeSet = Readonly<{
+  source: string;
+  // 与 nodes 一一对应的 JSON 路径，用于在跨来源冲突中指出具体条目。
+  paths: readonly string[];
+  nodes: readonly DerpNode[];
+}>;
+
+// Tailscale 默认区域使用 1 起的小编号，自定义区域约定使用 900-999，但上游 map 可能使用更大的编号，不设上限。
+const MIN_REGION_ID = 1;
+const OPTIONAL_STRING_FIELDS = ['ipv4', 'ipv6', 'regionCode', 'regionName', 'certName'] as const;
+const OPTIONAL_BOOLEAN_FIELDS = ['avoid', 'stunOnly', 'canPort80', 'insecureForTests'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPort = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 65_535;
+
+export class DerpValidationError extends Error {
+  readonly issues: DerpNodeIssue[];
+
+  constructor(issues: readonly DerpNodeIssue[]) {
+    super(`Invalid DERP nodes: ${formatDerpIssues(issues)}`);
+    this.name = 'DerpValidationError';
+    this.issues = [...issues];
+  }
+}
+
+export const formatDerpIssues = (issues: readonly DerpNodeIssue[]): string =>
+  issues.map((issue) => `${issue.source} ${issue.path}: ${issue.message}`).join('; ');
+
+/**
+ * 逻辑块：单个 DERP 节点的严格校验（插件扁平格式，camelCase）。
+ * - 必填字段缺失或类型不符、端口越界、区域 ID 越界、主机名与 IP 字面量格式错误都逐项报告。
+ * - stunPort 允许 -1 表示禁用 STUN；仅 STUN 的节点必须启用 STUN。
+ * - 可选字段类型不符同样报告，不再静默丢弃。
+ * - 有任何问题时不返回节点。
+ */
+export const validateDerpNode = (
+  value: unknown,
+  path: string,
+  source: string,
+  fieldPath: (field: string) => string = (field) => `${path}.${field}`,
+): Readonly<{ node: DerpNode | null; issues: DerpNodeIssue[] }> => {
+  const issues: DerpNodeIssue[] = [];
+  const issue = (field: string, message: string): void => {
+    issues.push({ source, path: field ? fieldPath(field) : path, message });
+  };
+
+  if (!isRecord(value)) {
+    issue('', 'must be an object');
+    return { node: null, issues };
+  }
+
+  const { id, regionId, name, hostName, stunPort, derpPort } = value;
+  if (typeof id !== 'string' || id.length === 0) {
+    issue('id', 'must be a non-empty string');
+  }
+  if (typeof regionId !== 'number' || !Number.isInteger(regionId)) {
+    issue('regionId', 'must be an integer');
+  } else if (regionId < MIN_REGION_ID) {
+    issue('regionId', `must be at least ${MIN_REGION_ID}, got ${regionId}`);
+  }
+  if (typeof name !== 'string' || name.length === 0) {
+    issue('name', 'must be a non-empty string');
+  }
+  if (typeof hostName !== 'string' || hostName.length === 0) {
+    issue('hostName', 'must be a non-empty string');
+  } else if (!isDomainName(hostName) && !isIPv4(hostName) && !isIPv6(hostName)) {
+    issue('hostName', `is not a valid hostname or IP address: ${hostName}`);
+  }
+  if (stunPort !== -1 && !isPort(stunPort)) {
+    issue('stunPort', `must be -1 (disabled) or a port between 1 and 65535, got ${JSON.stringify(stunPort)}`);
+  }
+  if (!isPort(derpPort)) {
+    issue('derpPort', `must be a port between 1 and 65535, got ${JSON.stringify(derpPort)}`);
+  }
+
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || value[field] === '')) {
+      issue(field, 'must be a non-empty string');
+    }
+  }
+  for (const field of OPTIONAL_BOOLEAN_FIELDS) {
+    if (value[field] !== undefined && typeof value[field] !== 'boolean') {
+      issue(field, 'must be a boolean');
+    }
+  }
+  if (typeof value.ipv4 === 'string' && value.ipv4 !== '' && !isIPv4(value.ipv4)) {
+    issue('ipv4', `is not a valid IPv4 address: ${value.ipv4}`);
+  }
+  if (typeof value.ipv6 === 'string' && value.ipv6 !== '' && !isIPv6(value.ipv6)) {
+    issue('ipv6', `is not a valid IPv6 address: ${value.ipv6}`);
+  }
+  if (value.stunOnly === true && stunPort === -1) {
+    issue('stunOnly', 'STUN-only node must not disable STUN');
+  }
+
+  if (issues.length > 0) {
+    return { node: null, issues };
+  }
+
+  return {
+    node: {
+      id: id as string,
+      regionId: regionId as number,
+      name: name as string,
+      hostName: hostName as string,
+      stunPort: stunPort as number,
+      derpPort: derpPort as number,
+      // 可选字段只保留已设置的值；false 与未设置等价，保持输出与 omitempty 一致。
+      ...Object.fromEntries(
+        [...OPTIONAL_STRING_FIELDS, ...OPTIONAL_BOOLEAN_FIELDS]
+          .filter((field) => value[field] !== undefined && value[field] !== false)
+          .map((field) => [field, value[field]]),
+      ),
+    },
+    issues,
+  };
+};
+
+/**
+ * 跨来源冲突：节点 ID 必须全局唯一；同一 `hostName:derpPort` 只能出现一次，否则同一中继会被当成两个节点重复探测与选路。
+ * 冲突报告在后出现的条目上，并指出先出现的位置。
+ */
+export const findDerpNodeConflicts = (sets: readonly DerpNodeSet[]): DerpNodeIssue[] => {
+  const issues: DerpNodeIssue[] = [];
+  const ids = new Map<string, string>();
+  const endpoints = new Map<string, string>();
+
+  for (const set of sets) {
+    set.nodes.forEach((node, index) => {
+      const path = set.paths[index] ?? `$[${index}]`;
+      const location = `${set.source} ${path}`;
+      const endpoint = `${node.hostName.toLowerCase()}:${node.derpPort}`;
+
+      const firstId = ids.get(node.id);
+      if (firstId) {
+        issues.push({ source: set.source, path, message: `duplicate id ${node.id} (first at ${firstId})` });
+      } else {
+        ids.set(node.id, location);
+      }
+
+      // 仅 STUN 的节点不提供 DERP 服务，不参与端点去重。
+      const firstEndpoint = node.stunOnly ? undefined : endpoints.get(endpoint);
+      if (firstEndpoint) {
+        issues.push({
+          source: set.source,
+          path,
+          message: `duplicate endpoint ${endpoint} (first at ${firstEndpoint})`,
+        });
+      } else if (!node.stunOnly) {
+        endpoints.set(endpoint, location);
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * 校验一组节点（含来源内部的重复）；返回通过校验的节点集合与全部问题。
+ */
+export const validateDerpNodes = (
+  values: readonly unknown[],
+  source: string,
+  pathOf: (index: number) => string = (index) => `$[${index}]`,
+): DerpNodeValidation & Readonly<{ set: DerpNodeSet }> => {
+  const nodes: DerpNode[] = [];
+  const paths: string[] = [];
+  const issues: DerpNodeIssue[] = [];
+
+  values.forEach((value, index) => {
+    const result = validateDerpNode(value, pathOf(index), source);
+    issues.push(...result.issues);
+    if (result.node) {
+      nodes.push(result.node);
+      paths.push(pathOf(index));
+    }
+  });
+
+  const set: DerpNodeSet = { source, paths, nodes };
+  return { nodes, issues: [...issues, ...findDerpNodeConflicts([set])], set };
+};
@@ -0,0 +1,58 @@
+import type { DnsConfig } from './headscale-config';
+import type { InventoryNode } from './node-inventory';
+
+export type DnsRecord = Readonly<{
+  name: string;
+  type: 'A' | 'AAAA';
+  value: string;
+  source: 'node' | 'extra';
+  nodeId: string | null;
+  meristemNodeId: string | null;
+}>;
+
+export type DnsRecordTable = Readonly<{
+  baseDomain: string;
+  magicDns: boolean;
+  records: DnsRecord[];
+}>;
+
+/**
+ * 节点在 MagicDNS 下的完整域名：Headscale 以 given name 作为主机标签。
+ */
+export const nodeFqdn = (givenName: string, baseDomain: string): string =>
+  `${givenName.toLowerCase()}.${baseDomain.toLowerCase()}`;
+
+/**
+ * 逻辑块：生成有效的名称 -> 覆盖网 IP 表。
+ * - 关闭 MagicDNS 时 Headscale 既不应答节点名也不下发 extra_records，有效表为空。
+ * - 每个节点按 given name 生成 A/AAAA 记录，附带 Headscale 节点 ID 与 Meristem 节点 ID 便于 Core 反查。
+ * - 配置的 extra_records 原样追加；与节点同名时两者都保留，和 Headscale 实际应答一致。
+ * - 按名称、类型排序，输出稳定便于比较。
+ */
+export const buildDnsRecords = (nodes: readonly InventoryNode[], dns: DnsConfig): DnsRecordTable => {
+  const records: DnsRecord[] = [];
+  if (!dns.magicDns) {
+    return { baseDomain: dns.baseDomain, magicDns: false, records };
+  }
+
+  for (const node of nodes) {
+    const name = nodeFqdn(node.givenName, dns.baseDomain);
+    const identity = { source: 'node' as const, nodeId: node.id, meristemNodeId: node.meristemNodeId };
+    if (node.ipv4) {
+      records.push({ name, type: 'A', value: node.ipv4, ...identity });
+    }
+    if (node.ipv6) {
+      records.push({ name, type: 'AAAA', value: node.ipv6, ...identity });
+    }
+  }
+
+  for (const record of dns.extraRecords) {
+    records.push({ ...record, source: 'extra', nodeId: null, meristemNodeId: null });
+  }
+
+  return {
+    baseDomain: dns.baseDomain,
+    magicDns: dns.magicDns,
+    records: records.sort((a, b) => a.name.localeCompare(b.name) || a.type.localeCompare(b.type)),
+  };
+};
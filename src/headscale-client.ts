@@ -1,11 +1,65 @@
+import { createCircuitBreaker, type CircuitBreakerSnapshot } from './circuit-breaker';
+import {
+  classifyHeadscaleResponse,
+  HeadscaleCircuitOpenError,
+  HeadscaleDecodeError,
+  isTransientHeadscaleError,
+  toHeadscaleNetworkError,
+} from './headscale-errors';
+import {
+  decodeApiKey,
+  decodeApiKeySecret,
+  decodeEnvelope,
+  decodeListEnvelope,
+  decodeNode,
+  decodePolicyDocument,
+  decodePreAuthKey,
+  decodeRoute,
+  decodeUser,
+  type CreateApiKeyInput,
+  type CreatePreAuthKeyInput,
+  type CreateUserInput,
+  type ExpirePreAuthKeyInput,
+  type HeadscaleApiKey,
+  type HeadscaleNode,
+  type HeadscalePolicy,
+  type HeadscalePolicyDocument,
+  type HeadscalePreAuthKey,
+  type HeadscaleRoute,
+  type HeadscaleUser,
+  type RegisterNodeInput,
+} from './headscale-types';
+
 type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
 
+export type HeadscaleRetryOptions = Readonly<{
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}>;
+
+export type HeadscaleCircuitOptions = Readonly<{
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}>;
+
 export type HeadscaleClientOptions = Readonly<{
   baseUrl: string;
   apiKey: string;
   fetcher?: Fetcher;
+  timeoutMs?: number;
+  retry?: HeadscaleRetryOptions;
+  circuit?: HeadscaleCircuitOptions;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
 }>;
 
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 200;
+const DEFAULT_RETRY_MAX_DELAY_MS = 2_000;
+
 type HeadscaleVersionResponse = Readonly<{
   version?: string;
 }>;
@@ -15,6 +69,30 @@ const isRecord = (value: unknown): value is Record<string, unknown> =>
 
 const normalizeBaseUrl = (value: string): string => value.replace(/\/+$/, '');
 
+const segment = (value: string): string => encodeURIComponent(value);
+
+const withQuery = (path: string, query: Record<string, string | undefined>): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string' && value.length > 0) {
+      params.set(key, value);
+    }
+  }
+
+  const search = params.toString();
+  return search.length > 0 ? `${path}?${search}` : path;
+};
+
+const positiveInt = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+const defaultSleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withTimeoutSignal = (timeoutMs: number, signal?: AbortSignal | null): AbortSignal => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
 const readJson = async (response: Response): Promise<unknown> => {
   const text = await response.text();
   if (text.length === 0) {
@@ -37,66 +115,267 @@ const isCompatibleVersion = (value: string): boolean => {
   return /^v?0\.2[4-9]\./.test(normalized) || /^v?0\.[3-9]\d*\./.test(normalized);
 };
 
+const single =
+  <T>(snake: string, camel: string, decoder: (value: unknown) => T) =>
+  (payload: unknown): T =>
+    decodeEnvelope(payload, snake, camel, decoder);
+
+const list =
+  <T>(snake: string, camel: string, decoder: (value: unknown) => T) =>
+  (payload: unknown): T[] =>
+    decodeListEnvelope(payload, snake, camel, decoder);
+
+const decodeUserEnvelope = single('user', 'user', decodeUser);
+const decodeNodeEnvelope = single('node', 'node', decodeNode);
+const decodeRouteList = list('routes', 'routes', decodeRoute);
+
 export type HeadscaleClient = Readonly<{
   probeVersion: () => Promise<{ compatible: boolean; version: string | null }>;
   healthCheck: () => Promise<boolean>;
-  createAuthKey: (payload: unknown) => Promise<unknown>;
-  listMachines: () => Promise<unknown>;
-  updateAcl: (payload: unknown) => Promise<unknown>;
+  listUsers: () => Promise<HeadscaleUser[]>;
+  createUser: (input: CreateUserInput) => Promise<HeadscaleUser>;
+  renameUser: (userId: string, newName: string) => Promise<HeadscaleUser>;
+  deleteUser: (userId: string) => Promise<void>;
+  listNodes: (filter?: { user?: string }) => Promise<HeadscaleNode[]>;
+  getNode: (nodeId: string) => Promise<HeadscaleNode>;
+  registerNode: (input: RegisterNodeInput) => Promise<HeadscaleNode>;
+  renameNode: (nodeId: string, newName: string) => Promise<HeadscaleNode>;
+  expireNode: (nodeId: string) => Promise<HeadscaleNode>;
+  deleteNode: (nodeId: string) => Promise<void>;
+  moveNode: (nodeId: string, user: string) => Promise<HeadscaleNode>;
+  setNodeTags: (nodeId: string, tags: readonly string[]) => Promise<HeadscaleNode>;
+  createAuthKey: (input: CreatePreAuthKeyInput) => Promise<HeadscalePreAuthKey>;
+  listAuthKeys: (user: string) => Promise<HeadscalePreAuthKey[]>;
+  expireAuthKey: (input: ExpirePreAuthKeyInput) => Promise<void>;
+  createApiKey: (input?: CreateApiKeyInput) => Promise<string>;
+  listApiKeys: () => Promise<HeadscaleApiKey[]>;
+  expireApiKey: (prefix: string) => Promise<void>;
+  listRoutes: () => Promise<HeadscaleRoute[]>;
+  listNodeRoutes: (nodeId: string) => Promise<HeadscaleRoute[]>;
+  enableRoute: (routeId: string) => Promise<void>;
+  disableRoute: (routeId: string) => Promise<void>;
+  deleteRoute: (routeId: string) => Promise<void>;
+  getPolicy: () => Promise<HeadscalePolicyDocument>;
+  updateAcl: (policy: HeadscalePolicy) => Promise<void>;
+  withTimeout: (timeoutMs: number) => HeadscaleClient;
+  /**
+   * 不重试、不计入熔断的视图，供启动就绪轮询使用：Headscale 尚未监听时的连接失败是预期内的。
+   */
+  unguarded: (timeoutMs: number) => HeadscaleClient;
+  getCircuitState: () => CircuitBreakerSnapshot;
 }>;
 
 export const createHeadscaleClient = (options: HeadscaleClientOptions): HeadscaleClient => {
   const fetcher = options.fetcher ?? fetch;
   const baseUrl = normalizeBaseUrl(options.baseUrl);
 
-  const request = async (path: string, init: RequestInit = {}): Promise<unknown> => {
-    const response = await fetcher(`${baseUrl}${path}`, {
-      ...init,
-      headers: {
-        Authorization: `Bearer ${options.apiKey}`,
-        'Content-Type': 'application/json',
-        ...(init.headers ?? {}),
-      },
-    });
+  const defaultTimeoutMs = positiveInt(options.timeoutMs, DEFAULT_TIMEOUT_MS);
+  const maxAttempts = positiveInt(options.retry?.maxAttempts, DEFAULT_RETRY_ATTEMPTS);
+  const baseDelayMs = positiveInt(options.retry?.baseDelayMs, DEFAULT_RETRY_BASE_DELAY_MS);
+  const maxDelayMs = positiveInt(options.retry?.maxDelayMs, DEFAULT_RETRY_MAX_DELAY_MS);
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+  const now = options.now ?? (() => Date.now());
+  const breaker = createCircuitBreaker({
+    failureThreshold: options.circuit?.failureThreshold,
+    resetTimeoutMs: options.circuit?.resetTimeoutMs,
+    now: options.now,
+  });
+
+  const send = async (path: string, init: RequestInit, timeoutMs: number): Promise<unknown> => {
+    let response: Response;
+    try {
+      response = await fetcher(`${baseUrl}${path}`, {
+        ...init,
+        signal: withTimeoutSignal(timeoutMs, init.signal),
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+          ...(init.headers ?? {}),
+        },
+      });
+    } catch (error) {
+      throw toHeadscaleNetworkError(path, error);
+    }
+
+    let body: unknown;
+    try {
+      body = await readJson(response);
+    } catch (error) {
+      throw toHeadscaleNetworkError(path, error);
+    }
 
     if (!response.ok) {
-      throw new Error(`Headscale request failed: ${path} -> ${response.status}`);
+      throw classifyHeadscaleResponse(path, response.status, body);
     }
 
-    return readJson(response);
+    return body;
+  };
+
+  const backoffDelay = (attempt: number): number => {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + (random() * ceiling) / 2);
   };
 
-  return Object.freeze({
-    probeVersion: async () => {
-      const payload = (await request('/api/v1/version')) as unknown;
-      const versionPayload = isRecord(payload) ? (payload as HeadscaleVersionResponse) : {};
-      const version = typeof versionPayload.version === 'string' ? versionPayload.version : null;
-
-      return {
-        compatible: version ? isCompatibleVersion(version) : false,
-        version,
-      };
-    },
-    healthCheck: async () => {
+  /**
+   * 逻辑块：单次调用的熔断与重试编排。
+   * - 熔断打开时直接拒绝，不再触达 Headscale。
+   * - 只有幂等 GET 在瞬时故障（网络/超时/5xx）下按抖动指数退避重试；写操作失败即返回。
+   * - 4xx 说明 Headscale 在正常应答，计为成功以免误触熔断。
+   * - timeoutMs 是整次调用（含全部重试与退避）的预算：每次尝试只使用剩余时间，剩余时间不足下一次退避时不再重试，
+   *   保证调用在调用方的截止时间内结束。
+   */
+  const execute = async (path: string, init: RequestInit, timeoutMs: number): Promise<unknown> => {
+    const idempotent = (init.method ?? 'GET').toUpperCase() === 'GET';
+    const attempts = idempotent ? maxAttempts : 1;
+    const deadline = now() + timeoutMs;
+
+    for (let attempt = 1; ; attempt += 1) {
+      if (!breaker.tryAcquire()) {
+        throw new HeadscaleCircuitOpenError(path);
+      }
+
+      try {
+        const body = await send(path, init, Math.max(1, deadline - now()));
+        breaker.recordSuccess();
+        return body;
+      } catch (error) {
+        if (!isTransientHeadscaleError(error)) {
+          breaker.recordSuccess();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        const delay = backoffDelay(attempt);
+        if (attempt >= attempts || deadline - now() <= delay) {
+          throw error;
+        }
+        await sleep(delay);
+      }
+    }
+  };
+
+  const createView = (timeoutMs: number, guarded: boolean): HeadscaleClient => {
+    const request = async (path: string, init: RequestInit = {}): Promise<unknown> =>
+      guarded ? execute(path, init, timeoutMs) : send(path, init, timeoutMs);
+
+    const call = async <T>(path: string, init: RequestInit, decode: (payload: unknown) => T): Promise<T> => {
+      const payload = await request(path, init);
       try {
-        await request('/health', {
-          method: 'GET',
+        return decode(payload);
+      } catch (error) {
+        throw new HeadscaleDecodeError(error instanceof Error ? error.message : String(error), {
+          path,
+          status: 200,
+          body: payload,
+          cause: error,
         });
-        return true;
-      } catch {
-        return false;
       }
-    },
-    createAuthKey: async (payload: unknown) =>
-      request('/api/v1/preauth-key', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      }),
-    listMachines: async () => request('/api/v1/machine', { method: 'GET' }),
-    updateAcl: async (payload: unknown) =>
-      request('/api/v1/acl', {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-      }),
-  });
+    };
+
+    return Object.freeze({
+      probeVersion: async () => {
+        const payload = (await request('/api/v1/version')) as unknown;
+        const versionPayload = isRecord(payload) ? (payload as HeadscaleVersionResponse) : {};
+        const version = typeof versionPayload.version === 'string' ? versionPayload.version : null;
+
+        return {
+          compatible: version ? isCompatibleVersion(version) : false,
+          version,
+        };
+      },
+      healthCheck: async () => {
+        try {
+          await request('/health', {
+            method: 'GET',
+          });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      listUsers: async () => call('/api/v1/user', { method: 'GET' }, list('users', 'users', decodeUser)),
+      createUser: async (input) =>
+        call('/api/v1/user', { method: 'POST', body: JSON.stringify(input) }, decodeUserEnvelope),
+      renameUser: async (userId, newName) =>
+        call(`/api/v1/user/${segment(userId)}/rename/${segment(newName)}`, { method: 'POST' }, decodeUserEnvelope),
+      deleteUser: async (userId) => {
+        await request(`/api/v1/user/${segment(userId)}`, { method: 'DELETE' });
+      },
+      listNodes: async (filter = {}) =>
+        call(withQuery('/api/v1/node', { user: filter.user }), { method: 'GET' }, list('nodes', 'nodes', decodeNode)),
+      getNode: async (nodeId) => call(`/api/v1/node/${segment(nodeId)}`, { method: 'GET' }, decodeNodeEnvelope),
+      registerNode: async (input) =>
+        call(
+          withQuery('/api/v1/node/register', { user: input.user, key: input.key }),
+          { method: 'POST' },
+          decodeNodeEnvelope,
+        ),
+      renameNode: async (nodeId, newName) =>
+        call(`/api/v1/node/${segment(nodeId)}/rename/${segment(newName)}`, { method: 'POST' }, decodeNodeEnvelope),
+      expireNode: async (nodeId) =>
+        call(`/api/v1/node/${segment(nodeId)}/expire`, { method: 'POST' }, decodeNodeEnvelope),
+      deleteNode: async (nodeId) => {
+        await request(`/api/v1/node/${segment(nodeId)}`, { method: 'DELETE' });
+      },
+      moveNode: async (nodeId, user) =>
+        call(
+          `/api/v1/node/${segment(nodeId)}/user`,
+          { method: 'POST', body: JSON.stringify({ user }) },
+          decodeNodeEnvelope,
+        ),
+      setNodeTags: async (nodeId, tags) =>
+        call(
+          `/api/v1/node/${segment(nodeId)}/tags`,
+          { method: 'POST', body: JSON.stringify({ tags }) },
+          decodeNodeEnvelope,
+        ),
+      createAuthKey: async (input) =>
+        call(
+          '/api/v1/preauthkey',
+          { method: 'POST', body: JSON.stringify(input) },
+          single('pre_auth_key', 'preAuthKey', decodePreAuthKey),
+        ),
+      listAuthKeys: async (user) =>
+        call(
+          withQuery('/api/v1/preauthkey', { user }),
+          { method: 'GET' },
+          list('pre_auth_keys', 'preAuthKeys', decodePreAuthKey),
+        ),
+      expireAuthKey: async (input) => {
+        await request('/api/v1/preauthkey/expire', { method: 'POST', body: JSON.stringify(input) });
+      },
+      createApiKey: async (input = {}) =>
+        call('/api/v1/apikey', { method: 'POST', body: JSON.stringify(input) }, decodeApiKeySecret),
+      listApiKeys: async () => call('/api/v1/apikey', { method: 'GET' }, list('api_keys', 'apiKeys', decodeApiKey)),
+      expireApiKey: async (prefix) => {
+        await request('/api/v1/apikey/expire', { method: 'POST', body: JSON.stringify({ prefix }) });
+      },
+      listRoutes: async () => call('/api/v1/routes', { method: 'GET' }, decodeRouteList),
+      listNodeRoutes: async (nodeId) =>
+        call(`/api/v1/node/${segment(nodeId)}/routes`, { method: 'GET' }, decodeRouteList),
+      enableRoute: async (routeId) => {
+        await request(`/api/v1/routes/${segment(routeId)}/enable`, { method: 'POST' });
+      },
+      disableRoute: async (routeId) => {
+        await request(`/api/v1/routes/${segment(routeId)}/disable`, { method: 'POST' });
+      },
+      deleteRoute: async (routeId) => {
+        await request(`/api/v1/routes/${segment(routeId)}`, { method: 'DELETE' });
+      },
+      getPolicy: async () => call('/api/v1/policy', { method: 'GET' }, decodePolicyDocument),
+      // Headscale 只接受字符串形式的策略文档，且仅在 policy.mode 为 database 时允许写入。
+      updateAcl: async (policy) => {
+        await request('/api/v1/policy', {
+          method: 'PUT',
+          body: JSON.stringify({ policy: JSON.stringify(policy, null, 2) }),
+        });
+      },
+      withTimeout: (nextTimeoutMs: number) => createView(positiveInt(nextTimeoutMs, timeoutMs), guarded),
+      unguarded: (nextTimeoutMs: number) => createView(positiveInt(nextTimeoutMs, timeoutMs), false),
+      getCircuitState: () => breaker.getSnapshot(),
+    });
+  };
+
+  return createView(defaultTimeoutMs, true);
 };
@@ -0,0 +1,406 @@
+import { isIPv4, isIPv6 } from 'node:net';
+import { dirname, join } from 'node:path';
+import { writeFileIfChanged } from './atomic-file';
+
+export type DnsExtraRecord = Readonly<{
+  name: string;
+  type: 'A' | 'AAAA';
+  value: string;
+}>;
+
+export type DnsConfigInput = Readonly<{
+  baseDomain?: string;
+  magicDns?: boolean;
+  nameservers?: string[];
+  split?: Readonly<Record<string, string[]>>;
+  extraRecords?: DnsExtraRecord[];
+}>;
+
+export type DnsConfig = Readonly<{
+  baseDomain: string;
+  magicDns: boolean;
+  nameservers: string[];
+  // 域名 -> 解析器；匹配该域名（含子域）的查询只发往这些解析器。
+  split: Readonly<Record<string, string[]>>;
+  extraRecords: DnsExtraRecord[];
+}>;
+
+export type HeadscaleConfigInput = Readonly<{
+  serverUrl?: string;
+  listenAddr?: string;
+  metricsListenAddr?: string;
+  grpcListenAddr?: string;
+  grpcAllowInsecure?: boolean;
+  dataDir?: string;
+  databasePath?: string;
+  noisePrivateKeyPath?: string;
+  prefixes?: Readonly<{ v4?: string; v6?: string }>;
+  dns?: DnsConfigInput;
+  derp?: Readonly<{ urls?: string[]; paths?: string[]; autoUpdate?: boolean; updateFrequency?: string }>;
+  policyPath?: string;
+  logLevel?: string;
+}>;
+
+export type HeadscaleConfig = Readonly<{
+  serverUrl: string;
+  listenAddr: string;
+  metricsListenAddr: string;
+  grpcListenAddr: string;
+  grpcAllowInsecure: boolean;
+  databasePath: string;
+  noisePrivateKeyPath: string;
+  prefixes: Readonly<{ v4: string; v6: string }>;
+  dns: DnsConfig;
+  derp: Readonly<{ urls: string[]; paths: string[]; autoUpdate: boolean; updateFrequency: string }>;
+  policyPath: string | null;
+  logLevel: string;
+}>;
+
+export type HeadscaleConfigIssue = Readonly<{
+  // 相对 `headscale` 段的字段路径，如 `dns.extraRecords[1].value`。
+  path: string;
+  message: string;
+}>;
+
+export type HeadscaleConfigValidation = Readonly<{
+  input: HeadscaleConfigInput | null;
+  issues: HeadscaleConfigIssue[];
+}>;
+
+export type HeadscaleConfigContext = Readonly<{
+  apiUrl: string;
+  configPath: string;
+}>;
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+const DEFAULT_PREFIX_V4 = '100.64.0.0/10';
+const DEFAULT_PREFIX_V6 = 'fd7a:115c:a1e0::/48';
+const DEFAULT_BASE_DOMAIN = 'mnet.meristem.internal';
+const DEFAULT_NAMESERVERS = ['1.1.1.1'];
+const DEFAULT_DERP_URLS = ['https://controlplane.tailscale.com/derpmap/default'];
+const MANAGED_DERP_UPDATE_FREQUENCY = '5m';
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+const CONFIG_HEADER = '# Generated by com.meristem.mnet from plugin config. Manual edits will be overwritten.\n';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+const readOptionalBoolean = (value: unknown): boolean | undefined => (typeof value === 'boolean' ? value : undefined);
+
+const readOptionalStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.length > 0)
+    : undefined;
+
+export const isDomainName = (value: string): boolean => DOMAIN_PATTERN.test(value);
+
+/**
+ * split DNS 映射：域名统一转为小写；非法域名、解析器不是非空字符串数组的条目逐项报告且不写入配置。
+ */
+const readSplitDns = (value: unknown, issues: HeadscaleConfigIssue[]): Record<string, string[]> | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    issues.push({ path: 'dns.split', message: 'must be an object' });
+    return undefined;
+  }
+
+  const split: Record<string, string[]> = {};
+  for (const [domain, resolvers] of Object.entries(value)) {
+    const path = `dns.split[${JSON.stringify(domain)}]`;
+    if (!isDomainName(domain)) {
+      issues.push({ path, message: `is not a valid domain name: ${domain}` });
+    } else if (
+      !Array.isArray(resolvers) ||
+      resolvers.length === 0 ||
+      !resolvers.every((item) => typeof item === 'string' && item.length > 0)
+    ) {
+      issues.push({ path, message: 'must be a non-empty list of resolver strings' });
+    } else {
+      split[domain.toLowerCase()] = resolvers as string[];
+    }
+  }
+
+  return split;
+};
+
+/**
+ * 额外记录只接受 A/AAAA，且值必须是对应族的 IP 地址，与 Headscale extra_records 支持的范围一致；
+ * 不符合的条目逐项报告且不写入配置。
+ */
+const readExtraRecords = (value: unknown, issues: HeadscaleConfigIssue[]): DnsExtraRecord[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'dns.extraRecords', message: 'must be an array' });
+    return undefined;
+  }
+
+  return value.flatMap((record, index): DnsExtraRecord[] => {
+    const path = `dns.extraRecords[${index}]`;
+    if (!isRecord(record)) {
+      issues.push({ path, message: 'must be an object' });
+      return [];
+    }
+
+    const { name, type, value: address } = record;
+    const before = issues.length;
+    if (typeof name !== 'string' || !isDomainName(name)) {
+      issues.push({ path: `${path}.name`, message: `is not a valid domain name: ${JSON.stringify(name)}` });
+    }
+    if (type !== 'A' && type !== 'AAAA') {
+      issues.push({ path: `${path}.type`, message: `must be A or AAAA, got ${JSON.stringify(type)}` });
+    } else if (typeof address !== 'string' || !(type === 'A' ? isIPv4(address) : isIPv6(address))) {
+      issues.push({
+        path: `${path}.value`,
+        message: `is not a valid ${type === 'A' ? 'IPv4' : 'IPv6'} address: ${JSON.stringify(address)}`,
+      });
+    }
+
+    return issues.length === before
+      ? [{ name: (name as string).toLowerCase(), type: type as DnsExtraRecord['type'], value: address as string }]
+      : [];
+  });
+};
+
+export const formatHeadscaleConfigIssues = (issues: readonly HeadscaleConfigIssue[]): string =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+
+/**
+ * 从插件配置的 `headscale` 段读取生成参数；类型不符的标量字段按未设置处理，回落到默认值。
+ * split DNS 与额外记录的非法条目写入 issues，由调用方决定拒绝配置。
+ */
+export const validateHeadscaleConfigInput = (value: unknown): HeadscaleConfigValidation => {
+  if (!isRecord(value)) {
+    return { input: null, issues: [] };
+  }
+
+  const prefixes = isRecord(value.prefixes) ? value.prefixes : {};
+  const dns = isRecord(value.dns) ? value.dns : {};
+  const derp = isRecord(value.derp) ? value.derp : {};
+  const issues: HeadscaleConfigIssue[] = [];
+
+  const input: HeadscaleConfigInput = {
+    serverUrl: readOptionalString(value.serverUrl),
+    listenAddr: readOptionalString(value.listenAddr),
+    metricsListenAddr: readOptionalString(value.metricsListenAddr),
+    grpcListenAddr: readOptionalString(value.grpcListenAddr),
+    grpcAllowInsecure: readOptionalBoolean(value.grpcAllowInsecure),
+    dataDir: readOptionalString(value.dataDir),
+    databasePath: readOptionalString(value.databasePath),
+    noisePrivateKeyPath: readOptionalString(value.noisePrivateKeyPath),
+    prefixes: {
+      v4: readOptionalString(prefixes.v4),
+      v6: readOptionalString(prefixes.v6),
+    },
+    dns: {
+      baseDomain: readOptionalString(dns.baseDomain),
+      magicDns: readOptionalBoolean(dns.magicDns),
+      nameservers: readOptionalStrings(dns.nameservers),
+      split: readSplitDns(dns.split, issues),
+      extraRecords: readExtraRecords(dns.extraRecords, issues),
+    },
+    derp: {
+      urls: readOptionalStrings(derp.urls),
+      paths: readOptionalStrings(derp.paths),
+      autoUpdate: readOptionalBoolean(derp.autoUpdate),
+      updateFrequency: readOptionalString(derp.updateFrequency),
+    },
+    policyPath: readOptionalString(value.policyPath),
+    logLevel: readOptionalString(value.logLevel),
+  };
+
+  return { input, issues };
+};
+
+export const readHeadscaleConfigInput = (value: unknown): HeadscaleConfigInput | null =>
+  validateHeadscaleConfigInput(value).input;
+
+const listenAddrFromUrl = (apiUrl: string): string => {
+  const url = new URL(apiUrl);
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+  return `${url.hostname}:${port}`;
+};
+
+/**
+ * 逻辑块：补全 Headscale 配置。
+ * - listen_addr 默认取自插件 apiUrl，保证插件访问的地址就是 Headscale 实际监听的地址。
+ * - 数据文件默认放在 configPath 同目录，保持 Sidecar 的所有状态集中在一个目录下。
+ */
+export const resolveHeadscaleConfig = (
+  input: HeadscaleConfigInput,
+  context: HeadscaleConfigContext,
+): HeadscaleConfig => {
+  const dataDir = input.dataDir ?? dirname(context.configPath);
+
+  return {
+    serverUrl: input.serverUrl ?? context.apiUrl,
+    listenAddr: input.listenAddr ?? listenAddrFromUrl(context.apiUrl),
+    metricsListenAddr: input.metricsListenAddr ?? '127.0.0.1:9090',
+    grpcListenAddr: input.grpcListenAddr ?? '127.0.0.1:50443',
+    grpcAllowInsecure: input.grpcAllowInsecure ?? false,
+    databasePath: input.databasePath ?? join(dataDir, 'db.sqlite'),
+    noisePrivateKeyPath: input.noisePrivateKeyPath ?? join(dataDir, 'noise_private.key'),
+    prefixes: {
+      v4: input.prefixes?.v4 ?? DEFAULT_PREFIX_V4,
+      v6: input.prefixes?.v6 ?? DEFAULT_PREFIX_V6,
+    },
+    dns: {
+      baseDomain: input.dns?.baseDomain ?? DEFAULT_BASE_DOMAIN,
+      magicDns: input.dns?.magicDns ?? true,
+      nameservers: input.dns?.nameservers ?? DEFAULT_NAMESERVERS,
+      split: input.dns?.split ?? {},
+      extraRecords: input.dns?.extraRecords ?? [],
+    },
+    derp: {
+      urls: input.derp?.urls ?? DEFAULT_DERP_URLS,
+      paths: input.derp?.paths ?? [],
+      autoUpdate: input.derp?.autoUpdate ?? true,
+      updateFrequency: input.derp?.updateFrequency ?? '24h',
+    },
+    policyPath: input.policyPath ?? null,
+    logLevel: input.logLevel ?? 'info',
+  };
+};
+
+/**
+ * 逻辑块：把插件维护的 DERP map 文件接入 Headscale。
+ * - 文件路径加入 derp.paths（已存在时不重复）。
+ * - 插件的 map 已包含当前模式下的全部中继；未显式配置 urls 时不再合并 Tailscale 默认 DERP map，
+ *   保证 Sidecar 下发的中继与 network-derp-map 一致。
+ * - Headscale 收到 SIGHUP 不会重读 DERP 文件，只有 DERP 自动更新任务按 update_frequency 重新加载 urls 与 paths，
+ *   因此强制开启 auto_update_enabled；未显式配置 updateFrequency 时使用较短的默认周期，而不是 Headscale 的 24h。
+ *   文件变更最迟在一个周期后到达运行中的 Sidecar。
+ */
+export const withManagedDerpMap = (input: HeadscaleConfigInput, derpMapPath: string): HeadscaleConfigInput => {
+  const paths = input.derp?.paths ?? [];
+  return {
+    ...input,
+    derp: {
+      ...input.derp,
+      urls: input.derp?.urls ?? [],
+      paths: paths.includes(derpMapPath) ? paths : [...paths, derpMapPath],
+      autoUpdate: true,
+      updateFrequency: input.derp?.updateFrequency ?? MANAGED_DERP_UPDATE_FREQUENCY,
+    },
+  };
+};
+
+const renderScalar = (value: string | number | boolean | null): string => {
+  if (value === null) {
+    return 'null';
+  }
+
+  // JSON 字符串是合法的 YAML 双引号标量，可避免 `:`、`#`、`*` 等字符被误解析。
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+};
+
+const isNested = (value: YamlValue): boolean =>
+  Array.isArray(value)
+    ? value.length > 0
+    : value !== null && typeof value === 'object' && Object.keys(value).length > 0;
+
+const renderInline = (value: YamlValue): string => {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return '{}';
+  }
+
+  return renderScalar(value);
+};
+
+const renderYaml = (value: YamlValue, indent: string): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isNested(item)) {
+        return [`${indent}- ${renderInline(item)}`];
+      }
+
+      const [first, ...rest] = renderYaml(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      isNested(item)
+        ? [`${indent}${key}:`, ...renderYaml(item, `${indent}  `)]
+        : [`${indent}${key}: ${renderInline(item)}`],
+    );
+  }
+
+  return [`${indent}${renderScalar(value)}`];
+};
+
+/**
+ * 渲染为 YAML 文档（块样式，标量按 JSON 引号规则输出），末尾带换行。
+ */
+export const renderYamlDocument = (value: YamlValue): string => `${renderYaml(value, '').join('\n')}\n`;
+
+export const renderHeadscaleConfig = (config: HeadscaleConfig): string => {
+  const document: YamlValue = {
+    server_url: config.serverUrl,
+    listen_addr: config.listenAddr,
+    metrics_listen_addr: config.metricsListenAddr,
+    grpc_listen_addr: config.grpcListenAddr,
+    grpc_allow_insecure: config.grpcAllowInsecure,
+    noise: {
+      private_key_path: config.noisePrivateKeyPath,
+    },
+    prefixes: {
+      v4: config.prefixes.v4,
+      v6: config.prefixes.v6,
+      allocation: 'sequential',
+    },
+    derp: {
+      server: {
+        enabled: false,
+      },
+      urls: config.derp.urls,
+      paths: config.derp.paths,
+      auto_update_enabled: config.derp.autoUpdate,
+      update_frequency: config.derp.updateFrequency,
+    },
+    disable_check_updates: true,
+    database: {
+      type: 'sqlite',
+      sqlite: {
+        path: config.databasePath,
+        write_ahead_log: true,
+      },
+    },
+    // JSON 日志便于插件按字段解析 Sidecar 输出。
+    log: {
+      level: config.logLevel,
+      format: 'json',
+    },
+    // 未指定策略文件时使用 database 模式，network-acl-apply 才能通过 API 写入策略。
+    policy: config.policyPath ? { mode: 'file', path: config.policyPath } : { mode: 'database' },
+    dns: {
+      magic_dns: config.dns.magicDns,
+      base_domain: config.dns.baseDomain,
+      nameservers: {
+        global: config.dns.nameservers,
+        split: { ...config.dns.split },
+      },
+      extra_records: config.dns.extraRecords.map((record) => ({ ...record })),
+    },
+  };
+
+  return `${CONFIG_HEADER}${renderYamlDocument(document)}`;
+};
+
+/**
+ * 渲染并原子写入 Headscale 配置，返回内容是否变化；新内容在 Sidecar 下次启动时生效。
+ */
+export const writeHeadscaleConfig = async (path: string, config: HeadscaleConfig): Promise<boolean> =>
+  writeFileIfChanged(path, renderHeadscaleConfig(config));
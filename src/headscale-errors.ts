@@ -0,0 +1,157 @@
+export type HeadscaleErrorCode =
+  | 'HEADSCALE_UNAUTHORIZED'
+  | 'HEADSCALE_NOT_FOUND'
+  | 'HEADSCALE_CONFLICT'
+  | 'HEADSCALE_INVALID_REQUEST'
+  | 'HEADSCALE_SERVER_ERROR'
+  | 'HEADSCALE_UNAVAILABLE'
+  | 'HEADSCALE_DECODE_ERROR';
+
+type HeadscaleErrorInit = Readonly<{
+  path: string;
+  status?: number | null;
+  body?: unknown;
+  cause?: unknown;
+}>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 逻辑块：Headscale 请求错误基类。
+ * - 目的：携带 HTTP 状态、请求路径与已解析的错误体，调用方按 `code` 分支而不是解析 message。
+ * - 子类只负责给出稳定的错误码，具体分类由 `classifyHeadscaleResponse` 完成。
+ */
+export class HeadscaleError extends Error {
+  readonly code: HeadscaleErrorCode;
+  readonly path: string;
+  readonly status: number | null;
+  readonly body: unknown;
+
+  constructor(code: HeadscaleErrorCode, message: string, init: HeadscaleErrorInit) {
+    super(message, init.cause === undefined ? undefined : { cause: init.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.path = init.path;
+    this.status = init.status ?? null;
+    this.body = init.body;
+  }
+}
+
+export class HeadscaleAuthError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_UNAUTHORIZED', message, init);
+  }
+}
+
+export class HeadscaleNotFoundError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_NOT_FOUND', message, init);
+  }
+}
+
+export class HeadscaleConflictError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_CONFLICT', message, init);
+  }
+}
+
+export class HeadscaleValidationError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_INVALID_REQUEST', message, init);
+  }
+}
+
+export class HeadscaleServerError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_SERVER_ERROR', message, init);
+  }
+}
+
+export class HeadscaleNetworkError extends HeadscaleError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, init: HeadscaleErrorInit & { timedOut?: boolean }) {
+    super('HEADSCALE_UNAVAILABLE', message, init);
+    this.timedOut = init.timedOut === true;
+  }
+}
+
+export class HeadscaleCircuitOpenError extends HeadscaleNetworkError {
+  constructor(path: string) {
+    super(`Headscale circuit open: ${path}`, { path });
+  }
+}
+
+export class HeadscaleDecodeError extends HeadscaleError {
+  constructor(message: string, init: HeadscaleErrorInit) {
+    super('HEADSCALE_DECODE_ERROR', message, init);
+  }
+}
+
+/**
+ * grpc-gateway 的错误体形如 `{ code, message, details }`；其余情况回退到原始文本。
+ */
+const readErrorMessage = (body: unknown): string | null => {
+  if (!isRecord(body)) {
+    return null;
+  }
+
+  if (typeof body.message === 'string' && body.message.length > 0) {
+    return body.message;
+  }
+
+  if (typeof body.raw === 'string' && body.raw.length > 0) {
+    return body.raw;
+  }
+
+  return null;
+};
+
+export const classifyHeadscaleResponse = (path: string, status: number, body: unknown): HeadscaleError => {
+  const detail = readErrorMessage(body);
+  const message = `Headscale request failed: ${path} -> ${status}${detail ? ` (${detail})` : ''}`;
+  const init = { path, status, body };
+
+  if (status === 401 || status === 403) {
+    return new HeadscaleAuthError(message, init);
+  }
+
+  if (status === 404) {
+    return new HeadscaleNotFoundError(message, init);
+  }
+
+  if (status === 409) {
+    return new HeadscaleConflictError(message, init);
+  }
+
+  if (status === 400 || status === 422) {
+    return new HeadscaleValidationError(message, init);
+  }
+
+  if (status === 502 || status === 503 || status === 504) {
+    return new HeadscaleNetworkError(message, init);
+  }
+
+  return new HeadscaleServerError(message, init);
+};
+
+/**
+ * 只有 Headscale 不可达或服务端故障才值得重试与计入熔断；4xx 与解码错误是确定性失败。
+ */
+export const isTransientHeadscaleError = (error: unknown): boolean =>
+  (error instanceof HeadscaleNetworkError && !(error instanceof HeadscaleCircuitOpenError)) ||
+  error instanceof HeadscaleServerError;
+
+const isTimeoutCause = (cause: unknown): boolean =>
+  cause instanceof Error && (cause.name === 'TimeoutError' || cause.name === 'AbortError');
+
+export const toHeadscaleNetworkError = (path: string, cause: unknown): HeadscaleNetworkError => {
+  const timedOut = isTimeoutCause(cause);
+  const reason = cause instanceof Error ? cause.message : String(cause);
+
+  return new HeadscaleNetworkError(
+    timedOut ? `Headscale request timed out: ${path}` : `Headscale request failed: ${path} -> ${reason}`,
+    { path, cause, timedOut },
+  );
+};
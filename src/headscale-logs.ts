@@ -0,0 +1,177 @@
+export type HeadscaleLogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+export type HeadscaleLogEntry = Readonly<{
+  seq: number;
+  timestamp: number;
+  stream: 'stdout' | 'stderr';
+  level: HeadscaleLogLevel;
+  message: string;
+  fields: Readonly<Record<string, unknown>>;
+}>;
+
+export type HeadscaleLogQuery = Readonly<{
+  level?: HeadscaleLogLevel;
+  tail?: number;
+}>;
+
+const LEVEL_RANK: Readonly<Record<HeadscaleLogLevel, number>> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+// zerolog 控制台输出使用三字母缩写，JSON 输出使用全名。
+const LEVEL_ALIASES: Readonly<Record<string, HeadscaleLogLevel>> = {
+  trc: 'trace',
+  trace: 'trace',
+  dbg: 'debug',
+  debug: 'debug',
+  inf: 'info',
+  info: 'info',
+  wrn: 'warn',
+  warn: 'warn',
+  warning: 'warn',
+  err: 'error',
+  error: 'error',
+  ftl: 'fatal',
+  fatal: 'fatal',
+  pnc: 'fatal',
+  panic: 'fatal',
+};
+
+const DEFAULT_CAPACITY = 1_000;
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const CONSOLE_PATTERN = /^(\S+)\s+(TRC|DBG|INF|WRN|ERR|FTL|PNC)\s+(.*)$/;
+const FIELD_TAIL_PATTERN = /(?:\s+[A-Za-z_][\w.-]*=(?:"(?:[^"\\]|\\.)*"|\S*))+$/;
+const FIELD_PATTERN = /([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readLogLevel = (value: unknown): HeadscaleLogLevel | null =>
+  typeof value === 'string' ? (LEVEL_ALIASES[value.toLowerCase()] ?? null) : null;
+
+export const isLogLevelEnabled = (level: HeadscaleLogLevel, minimum: HeadscaleLogLevel): boolean =>
+  LEVEL_RANK[level] >= LEVEL_RANK[minimum];
+
+const readFieldValue = (raw: string): unknown => {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  return raw;
+};
+
+const parseJsonLine = (line: string): Omit<HeadscaleLogEntry, 'seq' | 'timestamp' | 'stream'> | null => {
+  if (!line.startsWith('{')) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(parsed)) {
+    return null;
+  }
+
+  const { level, message, msg, ...fields } = parsed;
+  return {
+    level: readLogLevel(level) ?? 'info',
+    message: typeof message === 'string' ? message : typeof msg === 'string' ? msg : '',
+    fields,
+  };
+};
+
+const parseConsoleLine = (line: string): Omit<HeadscaleLogEntry, 'seq' | 'timestamp' | 'stream'> | null => {
+  const matched = CONSOLE_PATTERN.exec(line);
+  if (!matched) {
+    return null;
+  }
+
+  const [, time, level, rest] = matched;
+  const tail = FIELD_TAIL_PATTERN.exec(` ${rest}`);
+  const message = tail ? ` ${rest}`.slice(0, tail.index).trim() : rest.trim();
+  const fields: Record<string, unknown> = { time };
+
+  if (tail) {
+    for (const field of tail[0].matchAll(FIELD_PATTERN)) {
+      fields[field[1]] = readFieldValue(field[2]);
+    }
+  }
+
+  return {
+    level: readLogLevel(level) ?? 'info',
+    message,
+    fields,
+  };
+};
+
+/**
+ * 逻辑块：Headscale 输出行解析。
+ * - 兼容 zerolog 的 JSON 输出与控制台输出（去除 ANSI 颜色后按 `时间 级别 消息 key=value` 解析）。
+ * - 无法识别的行按原文作为 message 保留，级别记为 info，保证日志不丢失。
+ */
+export const parseLogLine = (line: string): Omit<HeadscaleLogEntry, 'seq' | 'timestamp' | 'stream'> => {
+  const plain = line.replace(ANSI_PATTERN, '').trim();
+
+  return (
+    parseJsonLine(plain) ??
+    parseConsoleLine(plain) ?? {
+      level: 'info',
+      message: plain,
+      fields: {},
+    }
+  );
+};
+
+/**
+ * 固定容量环形缓冲，超出容量时覆盖最旧的条目，保证 Sidecar 日志内存占用有界。
+ */
+export const createLogBuffer = (capacity = DEFAULT_CAPACITY) => {
+  const size = Number.isInteger(capacity) && capacity > 0 ? capacity : DEFAULT_CAPACITY;
+  const slots: Array<HeadscaleLogEntry | undefined> = new Array(size);
+  let next = 0;
+  let count = 0;
+  let seq = 0;
+
+  const append = (entry: Omit<HeadscaleLogEntry, 'seq'>): HeadscaleLogEntry => {
+    seq += 1;
+    const stored: HeadscaleLogEntry = Object.freeze({ ...entry, seq });
+    slots[next] = stored;
+    next = (next + 1) % size;
+    count = Math.min(count + 1, size);
+    return stored;
+  };
+
+  const query = (options: HeadscaleLogQuery = {}): HeadscaleLogEntry[] => {
+    const ordered: HeadscaleLogEntry[] = [];
+    for (let offset = count; offset > 0; offset -= 1) {
+      const entry = slots[(next - offset + size) % size];
+      if (entry && (!options.level || isLogLevelEnabled(entry.level, options.level))) {
+        ordered.push(entry);
+      }
+    }
+
+    const tail = typeof options.tail === 'number' && options.tail > 0 ? Math.floor(options.tail) : ordered.length;
+    return ordered.slice(-tail);
+  };
+
+  return Object.freeze({
+    append,
+    query,
+    size: (): number => count,
+  });
+};
+
+export type LogBuffer = ReturnType<typeof createLogBuffer>;
@@ -1,9 +1,14 @@
+import type { CircuitBreakerSnapshot } from './circuit-breaker';
 import { createHeadscaleClient, type HeadscaleClient } from './headscale-client';
+import { createLogBuffer, parseLogLine, type HeadscaleLogEntry, type HeadscaleLogQuery } from './headscale-logs';
+
+export type HeadscaleOutputStream = 'stdout' | 'stderr';
 
 export type HeadscaleProcess = Readonly<{
   pid: number;
   kill: (signal?: string) => void;
-  onExit: (handler: (code: number | null) => void) => void;
+  onExit: (handler: (code: number | null, signal?: string | null) => void) => void;
+  onOutput?: (handler: (stream: HeadscaleOutputStream, line: string) => void) => void;
 }>;
 
 type ProcessFactory = (input: {
@@ -17,23 +22,113 @@ export type HeadscaleManagerOptions = Readonly<{
   configPath: string;
   apiUrl: string;
   apiKey: string;
+  startupTimeoutMs?: number;
+  readinessIntervalMs?: number;
   maxRestarts?: number;
+  restartWindowMs?: number;
+  restartBackoff?: HeadscaleRestartBackoff;
+  stopGracePeriodMs?: number;
   processFactory?: ProcessFactory;
   client?: HeadscaleClient;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+  sleep?: (ms: number) => Promise<void>;
+  logCapacity?: number;
+  onLog?: (entry: HeadscaleLogEntry) => void;
+}>;
+
+export type HeadscaleRestartBackoff = Readonly<{
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+}>;
+
+export type HeadscalePhase = 'stopped' | 'starting' | 'running' | 'backoff' | 'stopping' | 'crash-looping';
+
+export type HeadscaleExit = Readonly<{
+  code: number | null;
+  signal: string | null;
+  at: number;
+}>;
+
+export type HeadscaleStopResult = Readonly<{
+  exit: HeadscaleExit | null;
+  forced: boolean;
 }>;
 
 export type HeadscaleStatus = Readonly<{
+  phase: HeadscalePhase;
   running: boolean;
   restartCount: number;
-  compatible: boolean;
+  restartsInWindow: number;
+  nextRestartAt: number | null;
+  lastExit: HeadscaleExit | null;
+  // 当前进程的版本兼容性；尚未探测到版本时为 null，只有探测后被拒绝时为 false。
+  compatible: boolean | null;
   version: string | null;
+  circuit: CircuitBreakerSnapshot;
 }>;
 
+export type HeadscaleStartupFailure = 'incompatible' | 'timeout' | 'exited';
+
+/**
+ * 启动失败统一携带失败原因与子进程最近的 stderr 输出，便于直接定位 Headscale 侧报错。
+ */
+export class HeadscaleStartupError extends Error {
+  readonly code: 'HEADSCALE_INCOMPATIBLE' | 'HEADSCALE_STARTUP_FAILED';
+  readonly reason: HeadscaleStartupFailure;
+  readonly stderr: string[];
+
+  constructor(reason: HeadscaleStartupFailure, message: string, stderr: readonly string[]) {
+    super(stderr.length > 0 ? `${message}\nstderr:\n${stderr.join('\n')}` : message);
+    this.name = 'HeadscaleStartupError';
+    this.code = reason === 'incompatible' ? 'HEADSCALE_INCOMPATIBLE' : 'HEADSCALE_STARTUP_FAILED';
+    this.reason = reason;
+    this.stderr = [...stderr];
+  }
+}
+
+const DEFAULT_STARTUP_TIMEOUT_MS = 30_000;
+const DEFAULT_READINESS_INTERVAL_MS = 500;
+const READINESS_PROBE_TIMEOUT_MS = 2_000;
+const STDERR_TAIL_LINES = 20;
+const DEFAULT_STOP_GRACE_PERIOD_MS = 10_000;
+const KILL_WAIT_MS = 5_000;
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_RESTART_WINDOW_MS = 5 * 60_000;
+const DEFAULT_BACKOFF_INITIAL_MS = 1_000;
+const DEFAULT_BACKOFF_MAX_MS = 30_000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+const positiveOr = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+const forwardLines = async (stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> => {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of stream) {
+    buffered += decoder.decode(chunk, { stream: true });
+    let newline = buffered.indexOf('\n');
+    while (newline >= 0) {
+      onLine(buffered.slice(0, newline).replace(/\r$/, ''));
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf('\n');
+    }
+  }
+
+  buffered += decoder.decode();
+  if (buffered.length > 0) {
+    onLine(buffered);
+  }
+};
+
 const defaultProcessFactory: ProcessFactory = ({ binary, args, env }) => {
   const subprocess = Bun.spawn([binary, ...args], {
     stdin: 'ignore',
-    stdout: 'ignore',
-    stderr: 'inherit',
+    stdout: 'pipe',
+    stderr: 'pipe',
     env: {
       ...process.env,
       ...env,
@@ -47,9 +142,14 @@ const defaultProcessFactory: ProcessFactory = ({ binary, args, env }) => {
     },
     onExit: (handler) => {
       void subprocess.exited.then((code) => {
-        handler(code);
+        const signal = subprocess.signalCode;
+        handler(signal === null ? code : null, typeof signal === 'string' ? signal : null);
       });
     },
+    onOutput: (handler) => {
+      void forwardLines(subprocess.stdout, (line) => handler('stdout', line));
+      void forwardLines(subprocess.stderr, (line) => handler('stderr', line));
+    },
   };
 };
 
@@ -60,8 +160,24 @@ const defaultProcessFactory: ProcessFactory = ({ binary, args, env }) => {
  * - 失败路径：版本不兼容或重启超限时直接 fail-fast，维持插件错误态并阻断继续切换到 M-Net。
  */
 export const createHeadscaleManager = (options: HeadscaleManagerOptions) => {
-  const maxRestarts = options.maxRestarts ?? 3;
+  const maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+  const restartWindowMs = positiveOr(options.restartWindowMs, DEFAULT_RESTART_WINDOW_MS);
+  const backoffInitialMs = positiveOr(options.restartBackoff?.initialDelayMs, DEFAULT_BACKOFF_INITIAL_MS);
+  const backoffMaxMs = positiveOr(options.restartBackoff?.maxDelayMs, DEFAULT_BACKOFF_MAX_MS);
+  const backoffMultiplier = Math.max(1, positiveOr(options.restartBackoff?.multiplier, DEFAULT_BACKOFF_MULTIPLIER));
+  const startupTimeoutMs = positiveOr(options.startupTimeoutMs, DEFAULT_STARTUP_TIMEOUT_MS);
+  const readinessIntervalMs = positiveOr(options.readinessIntervalMs, DEFAULT_READINESS_INTERVAL_MS);
+  const stopGracePeriodMs = positiveOr(options.stopGracePeriodMs, DEFAULT_STOP_GRACE_PERIOD_MS);
   const processFactory = options.processFactory ?? defaultProcessFactory;
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+  const sleep =
+    options.sleep ??
+    ((ms: number) =>
+      new Promise<void>((resolve) => {
+        setTimer(resolve, ms);
+      }));
   const client =
     options.client ??
     createHeadscaleClient({
@@ -69,85 +185,337 @@ export const createHeadscaleManager = (options: HeadscaleManagerOptions) => {
       apiKey: options.apiKey,
     });
 
+  const logs = createLogBuffer(options.logCapacity);
+
+  const exits = new WeakMap<HeadscaleProcess, Promise<HeadscaleExit>>();
+
   let processRef: HeadscaleProcess | null = null;
+  let startPromise: Promise<HeadscaleStatus> | null = null;
+  let stopPromise: Promise<HeadscaleStopResult> | null = null;
+  let stderrTail: string[] = [];
+  let restartTimer: unknown = null;
+  // 每次 stop() 递增；自动重启据此判断启动期间是否被有意停止。
+  let stopGeneration = 0;
   let restartCount = 0;
-  let status: HeadscaleStatus = Object.freeze({
+  let restartTimestamps: number[] = [];
+  let status: Omit<HeadscaleStatus, 'circuit'> = Object.freeze({
+    phase: 'stopped',
     running: false,
     restartCount: 0,
-    compatible: false,
+    restartsInWindow: 0,
+    nextRestartAt: null,
+    lastExit: null,
+    compatible: null,
     version: null,
   });
 
-  const updateStatus = (next: Partial<HeadscaleStatus>): void => {
+  // 熔断状态归客户端所有，读取状态时实时合并，避免两份状态不同步。
+  const snapshot = (): HeadscaleStatus =>
+    Object.freeze({
+      ...status,
+      circuit: client.getCircuitState(),
+    });
+
+  const updateStatus = (next: Partial<Omit<HeadscaleStatus, 'circuit'>>): void => {
     status = Object.freeze({
       ...status,
       ...next,
     });
   };
 
+  const pruneRestartWindow = (currentTs: number): number => {
+    restartTimestamps = restartTimestamps.filter((ts) => currentTs - ts < restartWindowMs);
+    return restartTimestamps.length;
+  };
+
+  const cancelRestart = (): void => {
+    if (restartTimer !== null) {
+      clearTimer(restartTimer);
+      restartTimer = null;
+    }
+  };
+
+  /**
+   * 逻辑块：异常退出后的重启调度。
+   * - 重启预算按滑动窗口计算：窗口内重启次数达到 maxRestarts 即进入 crash-looping，
+   *   进程稳定运行超过窗口后旧记录自然过期，预算随之恢复。
+   * - 每次重启前按窗口内已重启次数做指数退避，避免 Headscale 反复秒退时打满 CPU 与日志。
+   */
+  const scheduleRestart = (currentTs: number): void => {
+    const recentRestarts = pruneRestartWindow(currentTs);
+    if (recentRestarts >= maxRestarts) {
+      updateStatus({
+        phase: 'crash-looping',
+        running: false,
+        restartsInWindow: recentRestarts,
+        nextRestartAt: null,
+      });
+      return;
+    }
+
+    const delay = Math.min(backoffMaxMs, backoffInitialMs * backoffMultiplier ** recentRestarts);
+    updateStatus({
+      phase: 'backoff',
+      running: false,
+      restartsInWindow: recentRestarts,
+      nextRestartAt: currentTs + delay,
+    });
+
+    restartTimer = setTimer(() => {
+      restartTimer = null;
+      restartTimestamps.push(now());
+      restartCount += 1;
+      updateStatus({
+        restartCount,
+        restartsInWindow: restartTimestamps.length,
+      });
+      restart();
+    }, delay);
+  };
+
+  /**
+   * 逻辑块：自动重启。
+   * - 与 start() 走同一条就绪门控，只有 `/health` 与版本探测都通过才回到 running。
+   * - 未就绪或启动期间退出按一次崩溃处理，继续消耗重启预算；版本不兼容不会因重启而改变，停在 stopped。
+   * - 重启期间调用 stop() 后不再调度下一次重启；重启进行中的 start() 共享同一流程。
+   */
+  const restart = (): void => {
+    const generation = stopGeneration;
+    startPromise = bringUp()
+      .catch((error: unknown) => {
+        const incompatible = error instanceof HeadscaleStartupError && error.reason === 'incompatible';
+        if (generation === stopGeneration && !incompatible) {
+          scheduleRestart(now());
+        }
+        return snapshot();
+      })
+      .finally(() => {
+        startPromise = null;
+      });
+  };
+
+  /**
+   * 只有当前持有的进程退出才会触发重启调度；stop() 已放弃的进程退出只记录退出信息。
+   */
+  const handleExit = (exited: HeadscaleProcess, exit: HeadscaleExit): void => {
+    updateStatus({ lastExit: exit });
+
+    if (processRef !== exited) {
+      return;
+    }
+
+    processRef = null;
+    if (status.phase === 'starting') {
+      // 启动阶段的退出由就绪轮询负责报告，不进入重启调度。
+      return;
+    }
+
+    scheduleRestart(exit.at);
+  };
+
   const spawn = (): void => {
-    processRef = processFactory({
+    const spawned = processFactory({
       binary: options.binaryPath,
       args: ['serve', '--config', options.configPath],
       env: {},
     });
+    processRef = spawned;
+    stderrTail = [];
 
-    processRef.onExit(() => {
-      updateStatus({ running: false });
-
-      if (restartCount >= maxRestarts) {
+    exits.set(
+      spawned,
+      new Promise<HeadscaleExit>((resolve) => {
+        spawned.onExit((code, signal) => {
+          const exit: HeadscaleExit = { code, signal: signal ?? null, at: now() };
+          handleExit(spawned, exit);
+          resolve(exit);
+        });
+      }),
+    );
+    spawned.onOutput?.((stream, line) => {
+      if (line.trim().length === 0) {
         return;
       }
 
-      restartCount += 1;
-      updateStatus({ restartCount });
-      spawn();
-      updateStatus({ running: true });
+      const entry = logs.append({
+        ...parseLogLine(line),
+        timestamp: now(),
+        stream,
+      });
+      options.onLog?.(entry);
+
+      if (stream === 'stderr' && processRef === spawned) {
+        stderrTail = [...stderrTail.slice(-(STDERR_TAIL_LINES - 1)), line];
+      }
     });
   };
 
-  const start = async (): Promise<HeadscaleStatus> => {
-    if (processRef) {
-      return status;
+  const abortStartup = (spawned: HeadscaleProcess, reason: HeadscaleStartupFailure, message: string): never => {
+    const stderr = stderrTail;
+    if (processRef === spawned) {
+      processRef = null;
+      spawned.kill('SIGKILL');
     }
+    updateStatus({ phase: 'stopped', running: false });
+    throw new HeadscaleStartupError(reason, message, stderr);
+  };
 
-    const version = await client.probeVersion();
-    if (!version.compatible) {
-      updateStatus({
-        compatible: false,
-        version: version.version,
-      });
-      throw new Error(`Incompatible Headscale version: ${version.version ?? 'unknown'}`);
+  /**
+   * 逻辑块：启动就绪门控。
+   * - 先拉起子进程，再轮询 `/health` 与 `/api/v1/version`，两者都成功才认为 Headscale 已对外服务。
+   * - 版本兼容性针对刚拉起的这个进程判定，而不是端口上可能残留的其他实例。
+   * - 截止时间内子进程退出或始终未就绪时强制结束子进程，错误中附带 stderr 尾部。
+   */
+  const waitForReady = async (spawned: HeadscaleProcess): Promise<{ compatible: boolean; version: string | null }> => {
+    const deadline = now() + startupTimeoutMs;
+    let lastFailure = 'health check failed';
+
+    for (;;) {
+      if (processRef !== spawned) {
+        const exit = status.lastExit;
+        const detail = exit ? `code=${exit.code ?? 'null'} signal=${exit.signal ?? 'null'}` : 'stopped';
+        return abortStartup(spawned, 'exited', `Headscale exited during startup (${detail})`);
+      }
+
+      const remaining = deadline - now();
+      if (remaining <= 0) {
+        return abortStartup(
+          spawned,
+          'timeout',
+          `Headscale failed to become ready within ${startupTimeoutMs}ms: ${lastFailure}`,
+        );
+      }
+
+      const probe = client.unguarded(Math.max(1, Math.min(remaining, READINESS_PROBE_TIMEOUT_MS)));
+      if (await probe.healthCheck()) {
+        try {
+          return await probe.probeVersion();
+        } catch (error) {
+          lastFailure = error instanceof Error ? error.message : String(error);
+        }
+      } else {
+        lastFailure = 'health check failed';
+      }
+
+      await sleep(readinessIntervalMs);
     }
+  };
 
+  const bringUp = async (): Promise<HeadscaleStatus> => {
+    updateStatus({
+      phase: 'starting',
+      running: false,
+      nextRestartAt: null,
+      compatible: null,
+      version: null,
+    });
     spawn();
+    const spawned = processRef as HeadscaleProcess;
+
+    const version = await waitForReady(spawned);
     updateStatus({
-      running: true,
-      compatible: true,
+      compatible: version.compatible,
       version: version.version,
     });
-    return status;
+    if (!version.compatible) {
+      abortStartup(spawned, 'incompatible', `Incompatible Headscale version: ${version.version ?? 'unknown'}`);
+    }
+
+    if (processRef !== spawned) {
+      return abortStartup(spawned, 'exited', 'Headscale exited during startup');
+    }
+
+    updateStatus({ phase: 'running', running: true });
+    return snapshot();
   };
 
-  const stop = (): void => {
-    if (!processRef) {
-      return;
+  const launch = async (): Promise<HeadscaleStatus> => {
+    restartTimestamps = [];
+    updateStatus({ restartsInWindow: 0 });
+    return bringUp();
+  };
+
+  /**
+   * 逻辑块：启动入口。
+   * - 仍在停止宽限期内时先等待停止完成，避免旧进程尚未退出就拉起第二个 Headscale。
+   * - 并发调用与进行中的自动重启共享同一次启动流程；已有进程或待执行的重启时只返回当前状态。
+   */
+  const start = async (): Promise<HeadscaleStatus> => {
+    while (stopPromise) {
+      await stopPromise;
+    }
+
+    if (startPromise) {
+      return startPromise;
+    }
+
+    if (processRef || restartTimer !== null) {
+      return snapshot();
     }
 
+    startPromise = launch().finally(() => {
+      startPromise = null;
+    });
+    return startPromise;
+  };
+
+  const waitForExit = async (target: HeadscaleProcess, ms: number): Promise<HeadscaleExit | null> => {
+    const exited = exits.get(target);
+    if (!exited) {
+      return null;
+    }
+
+    let timer: unknown = null;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimer(() => resolve(null), ms);
+    });
+
+    try {
+      return await Promise.race([exited, timeout]);
+    } finally {
+      clearTimer(timer);
+    }
+  };
+
+  /**
+   * 逻辑块：优雅停止。
+   * - 先 SIGTERM 并等待宽限期，让 Headscale 释放 SQLite 与监听端口；超时后升级为 SIGKILL。
+   * - 返回最终退出状态；SIGKILL 后仍未退出时 exit 为 null，由调用方记录异常。
+   * - 并发调用共享同一次停止流程，避免重复发送信号。
+   */
+  const shutdown = async (): Promise<HeadscaleStopResult> => {
+    stopGeneration += 1;
+    cancelRestart();
+
     const current = processRef;
     processRef = null;
+    if (!current) {
+      updateStatus({ phase: 'stopped', running: false, nextRestartAt: null });
+      return { exit: null, forced: false };
+    }
+
+    updateStatus({ phase: 'stopping', running: false, nextRestartAt: null });
     current.kill('SIGTERM');
-    updateStatus({
-      running: false,
-    });
+    const graceful = await waitForExit(current, stopGracePeriodMs);
+    if (graceful) {
+      updateStatus({ phase: 'stopped' });
+      return { exit: graceful, forced: false };
+    }
+
+    current.kill('SIGKILL');
+    const killed = await waitForExit(current, KILL_WAIT_MS);
+    updateStatus({ phase: 'stopped' });
+    return { exit: killed, forced: true };
   };
 
-  const reloadConfig = (): void => {
-    if (!processRef) {
-      return;
+  const stop = async (): Promise<HeadscaleStopResult> => {
+    if (!stopPromise) {
+      stopPromise = shutdown().finally(() => {
+        stopPromise = null;
+      });
     }
 
-    processRef.kill('SIGHUP');
+    return stopPromise;
   };
 
   const healthCheck = async (): Promise<boolean> => {
@@ -159,6 +527,9 @@ export const createHeadscaleManager = (options: HeadscaleManagerOptions) => {
     const healthy = await client.healthCheck();
     if (!healthy) {
       updateStatus({ running: false });
+    } else if (status.phase === 'running' && processRef) {
+      // 短暂失败后恢复：只在进程已通过就绪门控时回到 running，启动中的进程仍由就绪轮询决定。
+      updateStatus({ running: true });
     }
     return healthy;
   };
@@ -166,9 +537,9 @@ export const createHeadscaleManager = (options: HeadscaleManagerOptions) => {
   return Object.freeze({
     start,
     stop,
-    reloadConfig,
     healthCheck,
-    getStatus: (): HeadscaleStatus => status,
+    getStatus: snapshot,
+    getLogs: (query?: HeadscaleLogQuery): HeadscaleLogEntry[] => logs.query(query),
     getClient: (): HeadscaleClient => client,
   });
 };
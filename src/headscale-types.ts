@@ -0,0 +1,332 @@
+export type HeadscaleUser = Readonly<{
+  id: string;
+  name: string;
+  displayName: string | null;
+  email: string | null;
+  createdAt: string | null;
+}>;
+
+export type HeadscaleNode = Readonly<{
+  id: string;
+  name: string;
+  givenName: string;
+  user: HeadscaleUser | null;
+  ipAddresses: string[];
+  machineKey: string | null;
+  nodeKey: string | null;
+  online: boolean;
+  lastSeen: string | null;
+  expiry: string | null;
+  createdAt: string | null;
+  registerMethod: string | null;
+  forcedTags: string[];
+  validTags: string[];
+  invalidTags: string[];
+}>;
+
+export type HeadscalePreAuthKey = Readonly<{
+  id: string;
+  key: string;
+  user: string;
+  reusable: boolean;
+  ephemeral: boolean;
+  used: boolean;
+  expiration: string | null;
+  createdAt: string | null;
+  aclTags: string[];
+}>;
+
+export type HeadscaleApiKey = Readonly<{
+  id: string;
+  prefix: string;
+  expiration: string | null;
+  createdAt: string | null;
+  lastSeen: string | null;
+}>;
+
+export type HeadscaleRoute = Readonly<{
+  id: string;
+  node: HeadscaleNode | null;
+  prefix: string;
+  advertised: boolean;
+  enabled: boolean;
+  isPrimary: boolean;
+  createdAt: string | null;
+}>;
+
+export type HeadscaleAclRule = Readonly<{
+  action: 'accept';
+  src: string[];
+  dst: string[];
+  proto?: string;
+}>;
+
+export type HeadscaleSshRule = Readonly<{
+  action: 'accept' | 'check';
+  src: string[];
+  dst: string[];
+  users: string[];
+  checkPeriod?: string;
+}>;
+
+export type HeadscalePolicy = Readonly<{
+  groups: Readonly<Record<string, string[]>>;
+  tagOwners: Readonly<Record<string, string[]>>;
+  hosts: Readonly<Record<string, string>>;
+  acls: HeadscaleAclRule[];
+  ssh: HeadscaleSshRule[];
+  // 插件不解析的其他顶层段（autoApprovers、nodeAttrs、tests 等）原样保留，下发、差异与历史中都不丢失。
+  [section: string]: unknown;
+}>;
+
+/**
+ * Headscale 以 HuJSON 原文保存策略；由调用方解析为 HeadscalePolicy。
+ */
+export type HeadscalePolicyDocument = Readonly<{
+  policy: string;
+  updatedAt: string | null;
+}>;
+
+export type CreateUserInput = Readonly<{
+  name: string;
+  displayName?: string;
+  email?: string;
+}>;
+
+export type CreatePreAuthKeyInput = Readonly<{
+  user: string;
+  reusable?: boolean;
+  ephemeral?: boolean;
+  expiration?: string;
+  aclTags?: string[];
+}>;
+
+export type ExpirePreAuthKeyInput = Readonly<{
+  user: string;
+  key: string;
+}>;
+
+export type RegisterNodeInput = Readonly<{
+  user: string;
+  key: string;
+}>;
+
+export type CreateApiKeyInput = Readonly<{
+  expiration?: string;
+}>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Headscale 的 grpc-gateway 输出 proto 原名（snake_case），但 protojson 也接受 camelCase，
+ * 因此读取时两种命名都兼容，避免随 Headscale 编组选项变化而解码失败。
+ */
+const readField = (record: Record<string, unknown>, snake: string, camel: string): unknown =>
+  record[snake] !== undefined ? record[snake] : record[camel];
+
+const asString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+
+  // uint64 字段在 protojson 中编码为字符串，但兼容旧版本返回数字的情况。
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return null;
+};
+
+const asBoolean = (value: unknown): boolean => value === true;
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const invalid = (entity: string): Error => new Error(`Invalid Headscale ${entity} payload`);
+
+export const decodeUser = (value: unknown): HeadscaleUser => {
+  if (!isRecord(value)) {
+    throw invalid('user');
+  }
+
+  const id = asString(value.id);
+  const name = asString(value.name);
+  if (!id || !name) {
+    throw invalid('user');
+  }
+
+  return {
+    id,
+    name,
+    displayName: asString(readField(value, 'display_name', 'displayName')),
+    email: asString(value.email),
+    createdAt: asString(readField(value, 'created_at', 'createdAt')),
+  };
+};
+
+export const decodeNode = (value: unknown): HeadscaleNode => {
+  if (!isRecord(value)) {
+    throw invalid('node');
+  }
+
+  const id = asString(value.id);
+  const name = asString(value.name);
+  if (!id || !name) {
+    throw invalid('node');
+  }
+
+  const rawUser = value.user;
+
+  return {
+    id,
+    name,
+    givenName: asString(readField(value, 'given_name', 'givenName')) ?? name,
+    user: isRecord(rawUser) ? decodeUser(rawUser) : null,
+    ipAddresses: asStringArray(readField(value, 'ip_addresses', 'ipAddresses')),
+    machineKey: asString(readField(value, 'machine_key', 'machineKey')),
+    nodeKey: asString(readField(value, 'node_key', 'nodeKey')),
+    online: asBoolean(value.online),
+    lastSeen: asString(readField(value, 'last_seen', 'lastSeen')),
+    expiry: asString(value.expiry),
+    createdAt: asString(readField(value, 'created_at', 'createdAt')),
+    registerMethod: asString(readField(value, 'register_method', 'registerMethod')),
+    forcedTags: asStringArray(readField(value, 'forced_tags', 'forcedTags')),
+    validTags: asStringArray(readField(value, 'valid_tags', 'validTags')),
+    invalidTags: asStringArray(readField(value, 'invalid_tags', 'invalidTags')),
+  };
+};
+
+export const decodePreAuthKey = (value: unknown): HeadscalePreAuthKey => {
+  if (!isRecord(value)) {
+    throw invalid('pre-auth key');
+  }
+
+  const id = asString(value.id);
+  const key = asString(value.key);
+  const rawUser = value.user;
+  const user = isRecord(rawUser) ? asString(rawUser.name) : asString(rawUser);
+  if (!id || !key || !user) {
+    throw invalid('pre-auth key');
+  }
+
+  return {
+    id,
+    key,
+    user,
+    reusable: asBoolean(value.reusable),
+    ephemeral: asBoolean(value.ephemeral),
+    used: asBoolean(value.used),
+    expiration: asString(value.expiration),
+    createdAt: asString(readField(value, 'created_at', 'createdAt')),
+    aclTags: asStringArray(readField(value, 'acl_tags', 'aclTags')),
+  };
+};
+
+export const decodeApiKey = (value: unknown): HeadscaleApiKey => {
+  if (!isRecord(value)) {
+    throw invalid('API key');
+  }
+
+  const id = asString(value.id);
+  const prefix = asString(value.prefix);
+  if (!id || !prefix) {
+    throw invalid('API key');
+  }
+
+  return {
+    id,
+    prefix,
+    expiration: asString(value.expiration),
+    createdAt: asString(readField(value, 'created_at', 'createdAt')),
+    lastSeen: asString(readField(value, 'last_seen', 'lastSeen')),
+  };
+};
+
+export const decodeRoute = (value: unknown): HeadscaleRoute => {
+  if (!isRecord(value)) {
+    throw invalid('route');
+  }
+
+  const id = asString(value.id);
+  const prefix = asString(value.prefix);
+  if (!id || !prefix) {
+    throw invalid('route');
+  }
+
+  const rawNode = value.node;
+
+  return {
+    id,
+    node: isRecord(rawNode) ? decodeNode(rawNode) : null,
+    prefix,
+    advertised: asBoolean(value.advertised),
+    enabled: asBoolean(value.enabled),
+    isPrimary: asBoolean(readField(value, 'is_primary', 'isPrimary')),
+    createdAt: asString(readField(value, 'created_at', 'createdAt')),
+  };
+};
+
+/**
+ * 逻辑块：Headscale 响应统一包裹在单字段信封里（如 `{ node: {...} }`、`{ nodes: [...] }`）。
+ * - 单对象信封缺失即视为解码失败；列表信封缺失按空列表处理（protojson 会省略空数组）。
+ */
+export const decodeEnvelope = <T>(
+  payload: unknown,
+  snake: string,
+  camel: string,
+  decoder: (value: unknown) => T,
+): T => {
+  if (!isRecord(payload)) {
+    throw invalid(camel);
+  }
+
+  return decoder(readField(payload, snake, camel));
+};
+
+export const decodeListEnvelope = <T>(
+  payload: unknown,
+  snake: string,
+  camel: string,
+  decoder: (value: unknown) => T,
+): T[] => {
+  if (!isRecord(payload)) {
+    throw invalid(camel);
+  }
+
+  const items = readField(payload, snake, camel);
+  if (items === undefined || items === null) {
+    return [];
+  }
+
+  if (!Array.isArray(items)) {
+    throw invalid(camel);
+  }
+
+  return items.map(decoder);
+};
+
+export const decodeApiKeySecret = (payload: unknown): string => {
+  const secret = isRecord(payload) ? asString(readField(payload, 'api_key', 'apiKey')) : null;
+  if (!secret) {
+    throw invalid('API key');
+  }
+
+  return secret;
+};
+
+export const decodePolicyDocument = (payload: unknown): HeadscalePolicyDocument => {
+  if (!isRecord(payload)) {
+    throw invalid('policy');
+  }
+
+  const policy = payload.policy;
+  if (policy !== undefined && typeof policy !== 'string') {
+    throw invalid('policy');
+  }
+
+  return {
+    policy: policy ?? '',
+    updatedAt: asString(readField(payload, 'updated_at', 'updatedAt')),
+  };
+};
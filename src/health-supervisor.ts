@@ -0,0 +1,154 @@
+export type HealthLevel = 'healthy' | 'degraded' | 'unhealthy';
+
+export type HealthReport<TDetails> = Readonly<{
+  status: HealthLevel;
+  previous: HealthLevel | null;
+  reason: 'transition' | 'heartbeat';
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  details: TDetails;
+}>;
+
+export type HealthSupervisorOptions<TDetails> = Readonly<{
+  check: () => Promise<boolean>;
+  describe: () => TDetails | Promise<TDetails>;
+  onReport: (report: HealthReport<TDetails>) => void;
+  intervalMs?: number;
+  heartbeatIntervalMs?: number;
+  unhealthyThreshold?: number;
+  recoveryThreshold?: number;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+const DEFAULT_INTERVAL_MS = 15_000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 60_000;
+const DEFAULT_UNHEALTHY_THRESHOLD = 3;
+const DEFAULT_RECOVERY_THRESHOLD = 2;
+
+const positiveInt = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+/**
+ * 逻辑块：周期健康巡检。
+ * - 每个周期执行一次检查，检查抛错视为失败；上一轮未结束时不会叠加下一轮。
+ * - 滞回：首次失败进入 degraded，连续失败达到阈值才判定 unhealthy；
+ *   恢复同样需要连续成功达到阈值，避免 Headscale 抖动时状态来回翻转。
+ * - 状态变化立即上报；状态不变时按心跳间隔上报，让 Core 能感知巡检本身仍在运行。
+ */
+export const createHealthSupervisor = <TDetails>(options: HealthSupervisorOptions<TDetails>) => {
+  const intervalMs = positiveInt(options.intervalMs, DEFAULT_INTERVAL_MS);
+  const heartbeatIntervalMs = positiveInt(options.heartbeatIntervalMs, DEFAULT_HEARTBEAT_INTERVAL_MS);
+  const unhealthyThreshold = positiveInt(options.unhealthyThreshold, DEFAULT_UNHEALTHY_THRESHOLD);
+  const recoveryThreshold = positiveInt(options.recoveryThreshold, DEFAULT_RECOVERY_THRESHOLD);
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+
+  let status: HealthLevel = 'healthy';
+  let consecutiveFailures = 0;
+  let consecutiveSuccesses = 0;
+  let lastReportAt = 0;
+  let timer: unknown = null;
+  let active = false;
+
+  const report = async (reason: HealthReport<TDetails>['reason'], previous: HealthLevel | null): Promise<void> => {
+    lastReportAt = now();
+    options.onReport({
+      status,
+      previous,
+      reason,
+      consecutiveFailures,
+      consecutiveSuccesses,
+      details: await options.describe(),
+    });
+  };
+
+  const evaluate = (): HealthLevel => {
+    if (consecutiveFailures >= unhealthyThreshold) {
+      return 'unhealthy';
+    }
+
+    if (consecutiveFailures > 0) {
+      return status === 'unhealthy' ? 'unhealthy' : 'degraded';
+    }
+
+    if (status !== 'healthy' && consecutiveSuccesses < recoveryThreshold) {
+      return status;
+    }
+
+    return 'healthy';
+  };
+
+  const tick = async (): Promise<HealthLevel> => {
+    let healthy = false;
+    try {
+      healthy = await options.check();
+    } catch {
+      healthy = false;
+    }
+
+    if (healthy) {
+      consecutiveSuccesses += 1;
+      consecutiveFailures = 0;
+    } else {
+      consecutiveFailures += 1;
+      consecutiveSuccesses = 0;
+    }
+
+    const next = evaluate();
+    if (next !== status) {
+      const previous = status;
+      status = next;
+      await report('transition', previous);
+    } else if (now() - lastReportAt >= heartbeatIntervalMs) {
+      await report('heartbeat', null);
+    }
+
+    return status;
+  };
+
+  const schedule = (): void => {
+    timer = setTimer(() => {
+      timer = null;
+      void tick().finally(() => {
+        if (active) {
+          schedule();
+        }
+      });
+    }, intervalMs);
+  };
+
+  const start = async (): Promise<void> => {
+    if (active) {
+      return;
+    }
+
+    active = true;
+    status = 'healthy';
+    consecutiveFailures = 0;
+    consecutiveSuccesses = 0;
+    await report('transition', null);
+    if (active) {
+      schedule();
+    }
+  };
+
+  const stop = (): void => {
+    active = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+  };
+
+  return Object.freeze({
+    start,
+    stop,
+    tick,
+    getStatus: (): HealthLevel => status,
+  });
+};
+
+export type HealthSupervisor = ReturnType<typeof createHealthSupervisor>;
@@ -1,11 +1,83 @@
-import { createHeadscaleManager } from './headscale-manager';
-import { createDerpManager, type DerpMode, type DerpNode } from './derp-manager';
+import { createHeadscaleManager, type HeadscaleStopResult } from './headscale-manager';
+import {
+  assertPublicNodesCompatible,
+  createDerpManager,
+  refreshDerpMapFile,
+  type DerpMap,
+  type DerpMode,
+  type DerpNode,
+  type DerpStatus,
+} from './derp-manager';
+import { createDerpProber, type DerpProbeStats } from './derp-prober';
+import { createRemoteDerpSource } from './derp-source';
+import { findDerpNodeConflicts, formatDerpIssues, validateDerpNodes } from './derp-validation';
+import {
+  formatHeadscaleConfigIssues,
+  resolveHeadscaleConfig,
+  validateHeadscaleConfigInput,
+  withManagedDerpMap,
+  writeHeadscaleConfig,
+  type DnsConfig,
+  type HeadscaleConfigInput,
+} from './headscale-config';
+import { createHealthSupervisor, type HealthReport } from './health-supervisor';
+import { dirname, join } from 'node:path';
+import {
+  collectSwitchBlockers,
+  createNetworkModeTracker,
+  isNetworkMode,
+  readDesiredMode,
+  writeDesiredMode,
+  type NetworkMode,
+  type NetworkModeInputs,
+  type NetworkModeState,
+  type NetworkModeTransition,
+} from './network-mode';
+import {
+  createAclGenerator,
+  readAclGeneratorConfig,
+  readNodeRoles,
+  type AclGenerator,
+  type AclGeneratorConfig,
+} from './acl-generator';
+import { createAclManager, type AclManager } from './acl-policy';
+import { createAuditLog } from './audit-log';
+import {
+  createNodeEventHandler,
+  isNodeEventName,
+  nodeIdentityTag,
+  readNodeId,
+  type NodeAuditAction,
+  type NodeEventHandler,
+} from './node-events';
+import {
+  createRouteManager,
+  readRouteApprovalRules,
+  type RouteApprovalRule,
+  type RouteManager,
+  type RouteSyncStatus,
+} from './route-manager';
+import { createMeristemIdResolver, queryInventory, toInventoryNode, type InventoryNode } from './node-inventory';
+import { buildDnsRecords } from './dns-records';
+import type { HeadscaleClient } from './headscale-client';
+import { isLogLevelEnabled, readLogLevel, type HeadscaleLogEntry, type HeadscaleLogLevel } from './headscale-logs';
+import { createAuthKeyRegistry, type AuthKeyRegistry, type IssuedAuthKeyStatus } from './authkey-registry';
+import {
+  createAuthKeyPolicy,
+  parseAuthKeyRequest,
+  readAuthKeyPolicyConfig,
+  type AuthKeyPolicy,
+  type AuthKeyPolicyConfig,
+} from './authkey-policy';
+import { PluginError, toInvokeError, type PluginErrorCode } from './plugin-errors';
 
 enum PluginMessageType {
   INIT = 'INIT',
   INVOKE = 'INVOKE',
   INVOKE_RESULT = 'INVOKE_RESULT',
   HEALTH = 'HEALTH',
+  LOG = 'LOG',
+  EVENT = 'EVENT',
 }
 
 type PluginHealthReport = {
@@ -18,6 +90,54 @@ type PluginHealthReport = {
   };
   uptime: number;
   status: 'healthy' | 'degraded' | 'unhealthy';
+  details?: PluginHealthDetails;
+};
+
+type PluginHealthDetails = {
+  reason: HealthReport<unknown>['reason'];
+  previousStatus: PluginHealthReport['status'] | null;
+  consecutiveFailures: number;
+  headscale: {
+    phase: string;
+    version: string | null;
+    restartCount: number;
+    circuit: string;
+  } | null;
+  derp:
+    | (DerpStatus & {
+        regionCount: number | null;
+        error: string | null;
+        probes: DerpProbeStats[];
+        mapFile: DerpMapFileStatus;
+      })
+    | null;
+  routes: RouteSyncStatus | null;
+};
+
+type DerpMapFileStatus = {
+  path: string | null;
+  writtenAt: number | null;
+  error: string | null;
+};
+
+type PluginLogRecord = {
+  source: 'headscale';
+  level: HeadscaleLogLevel;
+  message: string;
+  fields: Readonly<Record<string, unknown>>;
+  stream: HeadscaleLogEntry['stream'];
+  seq: number;
+  timestamp: number;
+};
+
+type PluginChannelEvent = {
+  channel: string;
+  data: unknown;
+};
+
+type PluginEventRequest = {
+  event: string;
+  data: unknown;
 };
 
 type PluginInvokeRequest = {
@@ -30,7 +150,7 @@ type PluginInvokeResponse = {
   success: boolean;
   data?: unknown;
   error?: {
-    code: string;
+    code: PluginErrorCode;
     message: string;
   };
 };
@@ -42,6 +162,9 @@ type PluginMessage = {
   timestamp: number;
   payload?: unknown;
   traceId?: string;
+  // 调用方插件 ID：现有 PluginMessage 协议未定义该字段，只有会在 INVOKE 信封上填写它的 Core 才能调用按调用方授权的导出。
+  // params 由调用方自行构造，不能作为身份来源。
+  callerPluginId?: string;
 };
 
 type RuntimeConfig = {
@@ -49,10 +172,40 @@ type RuntimeConfig = {
   configPath: string;
   apiUrl: string;
   apiKey: string;
+  modeStatePath: string;
+  aclHistoryPath: string;
+  aclHistoryLimit: number;
+  aclGenerator: AclGeneratorConfig | null;
+  aclNodesPath: string;
+  routeAutoApprove: RouteApprovalRule[];
+  routeSyncIntervalMs: number;
+  headscale: HeadscaleConfigInput | null;
+  startupTimeoutMs: number;
+  stopGracePeriodMs: number;
+  healthIntervalMs: number;
+  heartbeatIntervalMs: number;
+  unhealthyThreshold: number;
+  defaultLogLevel: HeadscaleLogLevel;
+  joinKeyUser: string;
+  joinKeyTtlMs: number;
+  joinKeyCallers: string[];
+  offlineGraceMs: number;
+  authKeyPolicy: AuthKeyPolicyConfig;
+  authKeyMaxUnusedAgeMs: number;
+  authKeySweepIntervalMs: number;
+  authKeyStatePath: string;
   derpMode: DerpMode;
   derpSelfHosted: DerpNode[];
   derpPublic: DerpNode[];
   derpPublicPath?: string;
+  derpPublicUrl?: string;
+  derpPublicCachePath: string;
+  derpPublicRefreshIntervalMs: number;
+  derpOmitDefaultRegions: boolean;
+  derpMapPath: string;
+  derpProbeIntervalMs: number;
+  derpProbeTimeoutMs: number;
+  derpProbeWindow: number;
 };
 
 type RuntimeState = {
@@ -61,6 +214,14 @@ type RuntimeState = {
   config: RuntimeConfig;
   manager: ReturnType<typeof createHeadscaleManager> | null;
   derpManager: ReturnType<typeof createDerpManager> | null;
+  derpMapFile: DerpMapFileStatus;
+  nodeEvents: NodeEventHandler | null;
+  authKeyPolicy: AuthKeyPolicy | null;
+  authKeys: AuthKeyRegistry | null;
+  acl: AclManager | null;
+  aclGenerator: AclGenerator | null;
+  routes: RouteManager | null;
+  disposers: Array<() => void>;
 };
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -87,9 +248,23 @@ const isInvokeRequest = (value: unknown): value is PluginInvokeRequest => {
   return typeof value.method === 'string' && 'params' in value;
 };
 
+const isEventRequest = (value: unknown): value is PluginEventRequest => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  return typeof value.event === 'string' && 'data' in value;
+};
+
 const readString = (value: unknown, fallback: string): string =>
   typeof value === 'string' && value.length > 0 ? value : fallback;
 
+const readStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+const readPositiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
 const readDerpMode = (value: unknown): DerpMode => {
   if (value === 'self-hosted-only' || value === 'public-only' || value === 'hybrid') {
     return value;
@@ -98,52 +273,95 @@ const readDerpMode = (value: unknown): DerpMode => {
   return 'hybrid';
 };
 
-const readDerpNodes = (value: unknown): DerpNode[] => {
-  if (!Array.isArray(value)) {
-    return [];
+/**
+ * 插件配置中的 DERP 节点列表经共享校验器严格校验；未配置按空列表处理，不是数组则整体报错。
+ */
+const readDerpNodes = (value: unknown, source: string): ReturnType<typeof validateDerpNodes> =>
+  Array.isArray(value)
+    ? validateDerpNodes(value, source)
+    : {
+        ...validateDerpNodes([], source),
+        issues: value === undefined || value === null ? [] : [{ source, path: '$', message: 'must be an array' }],
+      };
+
+/**
+ * 按调用方授权的导出只接受 Core 信封上的调用方身份；缺失说明 Core 未提供调用方身份，
+ * 以独立的配置错误拒绝，而不是当作策略拒绝或归入共享的匿名配额。
+ */
+const requireCaller = (method: string, caller: string | undefined): string => {
+  if (!caller) {
+    throw new PluginError(
+      'CALLER_IDENTITY_MISSING',
+      `${method} requires the caller identity (callerPluginId) on the INVOKE envelope, but Core did not provide it`,
+    );
   }
 
-  const nodes: DerpNode[] = [];
-  for (const item of value) {
-    if (typeof item !== 'object' || item === null) {
-      continue;
-    }
+  return caller;
+};
 
-    const raw = item as Record<string, unknown>;
-    if (
-      typeof raw.id !== 'string' ||
-      typeof raw.regionId !== 'number' ||
-      typeof raw.name !== 'string' ||
-      typeof raw.hostName !== 'string' ||
-      typeof raw.stunPort !== 'number' ||
-      typeof raw.derpPort !== 'number'
-    ) {
-      continue;
-    }
+const readCallerPluginId = (message: PluginMessage): string | undefined =>
+  typeof message.callerPluginId === 'string' && message.callerPluginId.length > 0 ? message.callerPluginId : undefined;
 
-    nodes.push({
-      id: raw.id,
-      regionId: raw.regionId,
-      name: raw.name,
-      hostName: raw.hostName,
-      ipv4: typeof raw.ipv4 === 'string' ? raw.ipv4 : undefined,
-      stunPort: raw.stunPort,
-      derpPort: raw.derpPort,
-    });
+const readModeSwitchInput = (value: Record<string, unknown>): { mode: NetworkMode; drainTimeoutMs: number } => {
+  if (!isNetworkMode(value.mode)) {
+    throw new PluginError('INVALID_PARAMS', 'network-mode-set requires payload.mode to be DIRECT or M-NET');
+  }
+
+  if (
+    value.drainTimeoutMs !== undefined &&
+    (typeof value.drainTimeoutMs !== 'number' || !Number.isFinite(value.drainTimeoutMs) || value.drainTimeoutMs < 0)
+  ) {
+    throw new PluginError('INVALID_PARAMS', 'network-mode-set payload.drainTimeoutMs must be a non-negative number');
   }
 
-  return nodes;
+  return { mode: value.mode, drainTimeoutMs: value.drainTimeoutMs ?? 0 };
 };
 
+const DEFAULT_CONFIG_PATH = process.env.MERISTEM_MNET_HEADSCALE_CONFIG ?? './data/mnet/headscale.yaml';
+
+// 插件状态文件默认与 headscale.yaml 放在同一目录，保持 Sidecar 与插件状态集中。
+const defaultStatePath = (configPath: string, fileName: string): string => join(dirname(configPath), fileName);
+
 const DEFAULT_CONFIG: RuntimeConfig = {
   binaryPath: process.env.MERISTEM_MNET_HEADSCALE_BIN ?? 'headscale',
-  configPath: process.env.MERISTEM_MNET_HEADSCALE_CONFIG ?? './data/mnet/headscale.yaml',
+  configPath: DEFAULT_CONFIG_PATH,
   apiUrl: process.env.MERISTEM_MNET_HEADSCALE_API_URL ?? 'http://localhost:8079',
   apiKey: process.env.MERISTEM_MNET_HEADSCALE_API_KEY ?? 'mnet-dev-key',
+  modeStatePath: defaultStatePath(DEFAULT_CONFIG_PATH, 'network-mode.json'),
+  aclHistoryPath: defaultStatePath(DEFAULT_CONFIG_PATH, 'acl-history.json'),
+  aclHistoryLimit: 10,
+  aclGenerator: null,
+  aclNodesPath: defaultStatePath(DEFAULT_CONFIG_PATH, 'acl-nodes.json'),
+  routeAutoApprove: [],
+  routeSyncIntervalMs: 60_000,
+  headscale: null,
+  startupTimeoutMs: 30_000,
+  stopGracePeriodMs: 10_000,
+  healthIntervalMs: 15_000,
+  heartbeatIntervalMs: 60_000,
+  unhealthyThreshold: 3,
+  // 与 plugin.json 中 ui_contract.default_log_level 保持一致。
+  defaultLogLevel: 'info',
+  joinKeyUser: 'meristem',
+  joinKeyTtlMs: 10 * 60_000,
+  joinKeyCallers: [],
+  offlineGraceMs: 5 * 60_000,
+  authKeyPolicy: readAuthKeyPolicyConfig(undefined),
+  authKeyMaxUnusedAgeMs: 60 * 60_000,
+  authKeySweepIntervalMs: 5 * 60_000,
+  authKeyStatePath: defaultStatePath(DEFAULT_CONFIG_PATH, 'authkeys.json'),
   derpMode: 'hybrid',
   derpSelfHosted: [],
   derpPublic: [],
   derpPublicPath: process.env.MERISTEM_MNET_DERP_PUBLIC_PATH,
+  derpPublicUrl: process.env.MERISTEM_MNET_DERP_PUBLIC_URL,
+  derpPublicCachePath: defaultStatePath(DEFAULT_CONFIG_PATH, 'derp-public-cache.json'),
+  derpPublicRefreshIntervalMs: 60 * 60_000,
+  derpOmitDefaultRegions: false,
+  derpMapPath: defaultStatePath(DEFAULT_CONFIG_PATH, 'derp.yaml'),
+  derpProbeIntervalMs: 30_000,
+  derpProbeTimeoutMs: 2_000,
+  derpProbeWindow: 10,
 };
 
 const state: RuntimeState = {
@@ -152,6 +370,40 @@ const state: RuntimeState = {
   config: DEFAULT_CONFIG,
   manager: null,
   derpManager: null,
+  derpMapFile: { path: null, writtenAt: null, error: null },
+  nodeEvents: null,
+  authKeyPolicy: null,
+  authKeys: null,
+  acl: null,
+  aclGenerator: null,
+  routes: null,
+  disposers: [],
+};
+
+const nodeAudit = createAuditLog<NodeAuditAction>();
+
+const DEFAULT_LOG_TAIL = 100;
+
+const emitLog = (entry: HeadscaleLogEntry): void => {
+  if (!isLogLevelEnabled(entry.level, state.config.defaultLogLevel)) {
+    return;
+  }
+
+  globalThis.postMessage({
+    id: crypto.randomUUID(),
+    type: PluginMessageType.LOG,
+    pluginId: state.pluginId,
+    timestamp: Date.now(),
+    payload: {
+      source: 'headscale',
+      level: entry.level,
+      message: entry.message,
+      fields: entry.fields,
+      stream: entry.stream,
+      seq: entry.seq,
+      timestamp: entry.timestamp,
+    } satisfies PluginLogRecord,
+  } satisfies PluginMessage);
 };
 
 const createManager = () => {
@@ -160,19 +412,117 @@ const createManager = () => {
     configPath: state.config.configPath,
     apiUrl: state.config.apiUrl,
     apiKey: state.config.apiKey,
+    startupTimeoutMs: state.config.startupTimeoutMs,
+    stopGracePeriodMs: state.config.stopGracePeriodMs,
+    onLog: emitLog,
   });
 
+  const derpConfig = {
+    mode: state.config.derpMode,
+    selfHostedNodes: state.config.derpSelfHosted,
+    publicNodes: state.config.derpPublic,
+    publicNodesPath: state.config.derpPublicPath,
+    omitDefaultRegions: state.config.derpOmitDefaultRegions,
+  };
   state.derpManager = createDerpManager({
-    config: {
-      mode: state.config.derpMode,
-      selfHostedNodes: state.config.derpSelfHosted,
-      publicNodes: state.config.derpPublic,
-      publicNodesPath: state.config.derpPublicPath,
+    config: derpConfig,
+    remoteSource: state.config.derpPublicUrl
+      ? createRemoteDerpSource({
+          url: state.config.derpPublicUrl,
+          cachePath: state.config.derpPublicCachePath,
+          refreshIntervalMs: state.config.derpPublicRefreshIntervalMs,
+          checkNodes: (nodes) => assertPublicNodesCompatible(derpConfig, nodes),
+        })
+      : undefined,
+    prober: createDerpProber({
+      intervalMs: state.config.derpProbeIntervalMs,
+      timeoutMs: state.config.derpProbeTimeoutMs,
+      windowSize: state.config.derpProbeWindow,
+    }),
+    onDerpMapChange: (map) => {
+      publishEvent(DERP_MAP_CHANNEL, {
+        plugin_id: state.pluginId,
+        region_count: Object.keys(map.Regions).length,
+        public_source: state.derpManager?.getStatus().publicSource ?? null,
+        map,
+      });
+      void syncDerpMapFile(map);
+    },
+  });
+
+  state.authKeyPolicy = createAuthKeyPolicy({ config: state.config.authKeyPolicy });
+  state.authKeys?.stop();
+  state.authKeys = createAuthKeyRegistry({
+    getClient: () => state.manager?.getClient() ?? null,
+    statePath: state.config.authKeyStatePath,
+    maxUnusedAgeMs: state.config.authKeyMaxUnusedAgeMs,
+    sweepIntervalMs: state.config.authKeySweepIntervalMs,
+    onSweepError: (error) => {
+      nodeAudit.record('authkey.sweep_failed', 'authkey-registry', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+
+  state.acl = createAclManager({
+    getClient: () => state.manager?.getClient() ?? null,
+    historyPath: state.config.aclHistoryPath,
+    historyLimit: state.config.aclHistoryLimit,
+  });
+  const acl = state.acl;
+  state.aclGenerator = state.config.aclGenerator
+    ? createAclGenerator({
+        config: state.config.aclGenerator,
+        statePath: state.config.aclNodesPath,
+        identityTag: nodeIdentityTag,
+        apply: (policy, applyOptions) => acl.apply(policy, applyOptions),
+        current: () => acl.current(),
+      })
+    : null;
+
+  state.routes?.stop();
+  state.routes = createRouteManager({
+    getClient: () => state.manager?.getClient() ?? null,
+    rules: state.config.routeAutoApprove,
+    intervalMs: state.config.routeSyncIntervalMs,
+    onApproved: (route, rule) => {
+      nodeAudit.record('route.approved', route.node?.givenName || route.node?.name || route.id, {
+        routeId: route.id,
+        prefix: route.prefix,
+        rule,
+      });
+    },
+    onConflict: (conflict) => {
+      nodeAudit.record('route.conflict', conflict.nodeIds.join(','), conflict);
+    },
+  });
+
+  state.nodeEvents?.dispose();
+  state.nodeEvents = createNodeEventHandler({
+    getClient: () => state.manager?.getClient() ?? null,
+    audit: nodeAudit,
+    user: state.config.joinKeyUser,
+    joinKeyTtlMs: state.config.joinKeyTtlMs,
+    offlineGraceMs: state.config.offlineGraceMs,
+    onKeyIssued: (nodeId, key) => {
+      // 密钥已签发，只是登记落盘失败：记入审计，避免后台失败变成未处理的拒绝。
+      void state.authKeys?.record(key, { caller: 'node.join' }).catch((error: unknown) => {
+        nodeAudit.record('authkey.unrecorded', nodeId, {
+          keyId: key.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    },
+    resolveTags: (nodeId) => state.aclGenerator?.tagsForNode(nodeId) ?? [],
+    onNodeRemoved: (nodeId) => {
+      if (state.aclGenerator) {
+        void unregisterGeneratedNode(state.aclGenerator, nodeId);
+      }
     },
   });
 };
 
-const emitHealth = (status: PluginHealthReport['status']): void => {
+const emitHealth = (status: PluginHealthReport['status'], details?: PluginHealthDetails): void => {
   const usage = process.memoryUsage();
   const payload: PluginMessage = {
     id: crypto.randomUUID(),
@@ -183,25 +533,220 @@ const emitHealth = (status: PluginHealthReport['status']): void => {
       memoryUsage: usage,
       uptime: process.uptime(),
       status,
+      details,
     } satisfies PluginHealthReport,
   };
   globalThis.postMessage(payload);
 };
 
+const describeDerp = async (): Promise<PluginHealthDetails['derp']> => {
+  if (!state.derpManager) {
+    return null;
+  }
+
+  try {
+    const map = await state.derpManager.buildDerpMap();
+    return {
+      ...state.derpManager.getStatus(),
+      regionCount: Object.keys(map.Regions).length,
+      error: null,
+      probes: state.derpManager.getProbeStats(),
+      mapFile: state.derpMapFile,
+    };
+  } catch (error) {
+    return {
+      ...state.derpManager.getStatus(),
+      regionCount: null,
+      error: error instanceof Error ? error.message : String(error),
+      probes: state.derpManager.getProbeStats(),
+      mapFile: state.derpMapFile,
+    };
+  }
+};
+
+const NETWORK_MODE_CHANNEL = 'sys.network.mode';
+const DERP_MAP_CHANNEL = 'sys.network.derp';
+
+const publishEvent = (channel: string, data: unknown): void => {
+  globalThis.postMessage({
+    id: crypto.randomUUID(),
+    type: PluginMessageType.EVENT,
+    pluginId: state.pluginId,
+    timestamp: Date.now(),
+    payload: { channel, data } satisfies PluginChannelEvent,
+  } satisfies PluginMessage);
+};
+
+const modeTracker = createNetworkModeTracker({
+  onTransition: (transition: NetworkModeTransition) => {
+    publishEvent(NETWORK_MODE_CHANNEL, { plugin_id: state.pluginId, ...transition });
+  },
+});
+
+const readNetworkModeInputs = async (headscaleHealthy: boolean): Promise<NetworkModeInputs> => {
+  const derp = await describeDerp();
+  return {
+    started: state.started,
+    headscaleHealthy,
+    headscaleCompatible: state.manager?.getStatus().compatible ?? null,
+    derpRegionCount: derp?.regionCount ?? null,
+  };
+};
+
+const refreshNetworkMode = async (headscaleHealthy: boolean): Promise<NetworkModeState> =>
+  modeTracker.evaluate(await readNetworkModeInputs(headscaleHealthy));
+
+const describeNetworkMode = (current: NetworkModeState, healthy: boolean) => ({
+  plugin_id: state.pluginId,
+  desired_mode: current.desiredMode,
+  mode: current.mode,
+  healthy,
+  reason: current.reason,
+  reasons: current.reasons,
+  since: current.since,
+  transition: current.pending
+    ? {
+        from: current.pending.from,
+        to: current.pending.to,
+        started_at: current.pending.startedAt,
+        deadline: current.pending.deadline,
+      }
+    : null,
+});
+
+/**
+ * 逻辑块：显式切换期望模式。
+ * - 切到 M-NET 前校验前置条件，失败时拒绝并列出失败项，期望模式保持不变。
+ * - 期望模式在状态变更后落盘，插件重启后沿用。
+ */
+const switchNetworkMode = async (mode: NetworkMode, drainTimeoutMs: number) => {
+  const healthy = state.started && Boolean(await state.manager?.healthCheck());
+  const inputs = await readNetworkModeInputs(healthy);
+  if (mode === 'M-NET') {
+    const blockers = collectSwitchBlockers(inputs);
+    if (blockers.length > 0) {
+      throw new PluginError('PRECONDITION_FAILED', `Cannot switch to M-NET: ${blockers.join(', ')}`);
+    }
+  }
+
+  const current = modeTracker.setDesiredMode(mode, inputs, { drainTimeoutMs });
+  await writeDesiredMode(state.config.modeStatePath, mode);
+  return describeNetworkMode(current, healthy);
+};
+
+const startSupervisor = async (): Promise<void> => {
+  const supervisor = createHealthSupervisor({
+    check: async () => {
+      const healthy = (await state.manager?.healthCheck()) ?? false;
+      await refreshNetworkMode(healthy);
+      return healthy;
+    },
+    describe: async () => {
+      const headscale = state.manager?.getStatus();
+      return {
+        headscale: headscale
+          ? {
+              phase: headscale.phase,
+              version: headscale.version,
+              restartCount: headscale.restartCount,
+              circuit: headscale.circuit.state,
+            }
+          : null,
+        derp: await describeDerp(),
+        routes: state.routes?.getStatus() ?? null,
+      };
+    },
+    onReport: (report) => {
+      emitHealth(report.status, {
+        reason: report.reason,
+        previousStatus: report.previous,
+        consecutiveFailures: report.consecutiveFailures,
+        ...report.details,
+      });
+    },
+    intervalMs: state.config.healthIntervalMs,
+    heartbeatIntervalMs: state.config.heartbeatIntervalMs,
+    unhealthyThreshold: state.config.unhealthyThreshold,
+  });
+
+  registerDisposer(supervisor.stop);
+  await supervisor.start();
+};
+
 const onInit = async (params: unknown): Promise<{ hook: string; config: RuntimeConfig }> => {
   const payload = isRecord(params) && isRecord(params.config) ? params.config : {};
+  const configPath = readString(payload.configPath, DEFAULT_CONFIG.configPath);
+  const derpMode = readDerpMode(payload.derpMode);
+  const derpSelfHosted = readDerpNodes(payload.derpSelfHosted, 'derpSelfHosted');
+  const derpPublic = readDerpNodes(payload.derpPublic, 'derpPublic');
+  // 只有 hybrid 模式会同时使用两组节点，跨来源的 ID/端点冲突只在该模式下拒绝。
+  const derpIssues = [
+    ...derpSelfHosted.issues,
+    ...derpPublic.issues,
+    ...(derpMode === 'hybrid' ? findDerpNodeConflicts([derpSelfHosted.set, derpPublic.set]) : []),
+  ];
+  if (derpIssues.length > 0) {
+    throw new PluginError('INVALID_PARAMS', `Invalid DERP nodes: ${formatDerpIssues(derpIssues)}`);
+  }
+  const headscale = validateHeadscaleConfigInput(payload.headscale);
+  if (headscale.issues.length > 0) {
+    throw new PluginError(
+      'INVALID_PARAMS',
+      `Invalid headscale config: ${formatHeadscaleConfigIssues(headscale.issues)}`,
+    );
+  }
 
   state.config = {
     binaryPath: readString(payload.binaryPath, DEFAULT_CONFIG.binaryPath),
-    configPath: readString(payload.configPath, DEFAULT_CONFIG.configPath),
+    configPath,
     apiUrl: readString(payload.apiUrl, DEFAULT_CONFIG.apiUrl),
     apiKey: readString(payload.apiKey, DEFAULT_CONFIG.apiKey),
-    derpMode: readDerpMode(payload.derpMode),
-    derpSelfHosted: readDerpNodes(payload.derpSelfHosted),
-    derpPublic: readDerpNodes(payload.derpPublic),
+    modeStatePath: readString(payload.modeStatePath, defaultStatePath(configPath, 'network-mode.json')),
+    aclHistoryPath: readString(payload.aclHistoryPath, defaultStatePath(configPath, 'acl-history.json')),
+    aclHistoryLimit: readPositiveNumber(payload.aclHistoryLimit, DEFAULT_CONFIG.aclHistoryLimit),
+    // 生成的标签默认归签发加入密钥的用户所有，否则 Headscale 会拒绝带这些标签的密钥。
+    aclGenerator: readAclGeneratorConfig(payload.aclGenerator, [
+      `${readString(payload.joinKeyUser, DEFAULT_CONFIG.joinKeyUser)}@`,
+    ]),
+    aclNodesPath: readString(payload.aclNodesPath, defaultStatePath(configPath, 'acl-nodes.json')),
+    routeAutoApprove: readRouteApprovalRules(payload.routeAutoApprove),
+    routeSyncIntervalMs: readPositiveNumber(payload.routeSyncIntervalMs, DEFAULT_CONFIG.routeSyncIntervalMs),
+    headscale: headscale.input,
+    startupTimeoutMs: readPositiveNumber(payload.startupTimeoutMs, DEFAULT_CONFIG.startupTimeoutMs),
+    stopGracePeriodMs: readPositiveNumber(payload.stopGracePeriodMs, DEFAULT_CONFIG.stopGracePeriodMs),
+    healthIntervalMs: readPositiveNumber(payload.healthIntervalMs, DEFAULT_CONFIG.healthIntervalMs),
+    heartbeatIntervalMs: readPositiveNumber(payload.heartbeatIntervalMs, DEFAULT_CONFIG.heartbeatIntervalMs),
+    unhealthyThreshold: readPositiveNumber(payload.unhealthyThreshold, DEFAULT_CONFIG.unhealthyThreshold),
+    defaultLogLevel: readLogLevel(payload.defaultLogLevel) ?? DEFAULT_CONFIG.defaultLogLevel,
+    joinKeyUser: readString(payload.joinKeyUser, DEFAULT_CONFIG.joinKeyUser),
+    joinKeyTtlMs: readPositiveNumber(payload.joinKeyTtlMs, DEFAULT_CONFIG.joinKeyTtlMs),
+    joinKeyCallers: readStringList(payload.joinKeyCallers),
+    offlineGraceMs: readPositiveNumber(payload.offlineGraceMs, DEFAULT_CONFIG.offlineGraceMs),
+    authKeyPolicy: readAuthKeyPolicyConfig(payload.authKeyPolicy),
+    authKeyMaxUnusedAgeMs: readPositiveNumber(payload.authKeyMaxUnusedAgeMs, DEFAULT_CONFIG.authKeyMaxUnusedAgeMs),
+    authKeySweepIntervalMs: readPositiveNumber(payload.authKeySweepIntervalMs, DEFAULT_CONFIG.authKeySweepIntervalMs),
+    authKeyStatePath: readString(payload.authKeyStatePath, defaultStatePath(configPath, 'authkeys.json')),
+    derpMode,
+    derpSelfHosted: derpSelfHosted.nodes,
+    derpPublic: derpPublic.nodes,
     derpPublicPath: readString(payload.derpPublicPath, DEFAULT_CONFIG.derpPublicPath ?? ''),
+    derpPublicUrl: readString(payload.derpPublicUrl, DEFAULT_CONFIG.derpPublicUrl ?? ''),
+    derpPublicCachePath: readString(
+      payload.derpPublicCachePath,
+      defaultStatePath(configPath, 'derp-public-cache.json'),
+    ),
+    derpPublicRefreshIntervalMs: readPositiveNumber(
+      payload.derpPublicRefreshIntervalMs,
+      DEFAULT_CONFIG.derpPublicRefreshIntervalMs,
+    ),
+    derpOmitDefaultRegions: payload.derpOmitDefaultRegions === true,
+    derpMapPath: readString(payload.derpMapPath, defaultStatePath(configPath, 'derp.yaml')),
+    derpProbeIntervalMs: readPositiveNumber(payload.derpProbeIntervalMs, DEFAULT_CONFIG.derpProbeIntervalMs),
+    derpProbeTimeoutMs: readPositiveNumber(payload.derpProbeTimeoutMs, DEFAULT_CONFIG.derpProbeTimeoutMs),
+    derpProbeWindow: readPositiveNumber(payload.derpProbeWindow, DEFAULT_CONFIG.derpProbeWindow),
   };
   createManager();
+  modeTracker.restoreDesiredMode((await readDesiredMode(state.config.modeStatePath)) ?? 'M-NET');
 
   return {
     hook: 'onInit',
@@ -209,66 +754,354 @@ const onInit = async (params: unknown): Promise<{ hook: string; config: RuntimeC
   };
 };
 
+/**
+ * 配置了 `headscale` 段时由插件生成 headscale.yaml；未配置时沿用运维手写的 configPath。
+ * 只在 Sidecar 启动前调用：Headscale 收到 SIGHUP 只重新加载策略，不会重读 headscale.yaml。
+ */
+const syncHeadscaleConfig = async (): Promise<boolean> => {
+  if (!state.config.headscale) {
+    return false;
+  }
+
+  const config = resolveHeadscaleConfig(withManagedDerpMap(state.config.headscale, state.config.derpMapPath), {
+    apiUrl: state.config.apiUrl,
+    configPath: state.config.configPath,
+  });
+  return writeHeadscaleConfig(state.config.configPath, config);
+};
+
+/**
+ * 逻辑块：把合并后的 DERP map 写入 Headscale 读取的 derp.paths 文件。
+ * - 内容未变化时不落盘；Sidecar 运行中的变更由 Headscale 按 derp.update_frequency 定期重读，无需重启。
+ * - 当前模式下无法生成 map（例如公共源缺失）时保留已有文件，没有文件时写入占位 map；错误记录在健康详情中。
+ */
+const syncDerpMapFile = async (map?: DerpMap): Promise<boolean> => {
+  const derpManager = state.derpManager;
+  if (!derpManager) {
+    return false;
+  }
+
+  const path = state.config.derpMapPath;
+  try {
+    const changed = await refreshDerpMapFile(path, async () => map ?? derpManager.buildDerpMap());
+    state.derpMapFile = { path, writtenAt: changed ? Date.now() : state.derpMapFile.writtenAt, error: null };
+    return changed;
+  } catch (error) {
+    state.derpMapFile = {
+      ...state.derpMapFile,
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    return false;
+  }
+};
+
 const onStart = async (): Promise<{ hook: string }> => {
   if (!state.manager) {
     createManager();
   }
 
+  // start() 仅在 Headscale 通过就绪轮询后返回，失败时抛出 HeadscaleStartupError。
+  await syncDerpMapFile();
+  await syncHeadscaleConfig();
   await state.manager!.start();
-  const healthy = await state.manager!.healthCheck();
-  state.started = healthy;
-  emitHealth(healthy ? 'healthy' : 'unhealthy');
+  state.started = true;
+  runDisposers();
+  await refreshNetworkMode(true);
+  if (state.authKeys) {
+    state.authKeys.start();
+    registerDisposer(state.authKeys.stop);
+  }
+  if (state.routes) {
+    state.routes.start();
+    registerDisposer(state.routes.stop);
+  }
+  if (state.derpManager) {
+    state.derpManager.startProbing();
+    state.derpManager.startWatching();
+    registerDisposer(state.derpManager.stopProbing);
+    registerDisposer(state.derpManager.stopWatching);
+  }
+  await startSupervisor();
 
   return {
     hook: 'onStart',
   };
 };
 
-const onStop = async (): Promise<{ hook: string }> => {
-  state.manager?.stop();
+const stopManager = async (): Promise<HeadscaleStopResult | null> => {
+  const result = (await state.manager?.stop()) ?? null;
   state.started = false;
+  return result;
+};
+
+/**
+ * 插件拥有的周期任务（健康巡检、清理器等）在创建时登记清理函数，销毁时统一释放。
+ */
+const registerDisposer = (dispose: () => void): void => {
+  state.disposers.push(dispose);
+};
+
+const runDisposers = (): void => {
+  const disposers = state.disposers.splice(0);
+  for (const dispose of disposers) {
+    dispose();
+  }
+};
+
+const onStop = async (): Promise<{ hook: string; stop: HeadscaleStopResult | null }> => {
+  runDisposers();
+  state.nodeEvents?.dispose();
+  const stop = await stopManager();
+  await refreshNetworkMode(false);
   emitHealth('degraded');
-  return { hook: 'onStop' };
+  return { hook: 'onStop', stop };
 };
 
-const onDestroy = async (): Promise<{ hook: string }> => {
-  state.manager?.stop();
-  state.started = false;
-  return { hook: 'onDestroy' };
+const onDestroy = async (): Promise<{ hook: string; stop: HeadscaleStopResult | null }> => {
+  runDisposers();
+  modeTracker.dispose();
+  state.nodeEvents?.dispose();
+  const stop = await stopManager();
+  return { hook: 'onDestroy', stop };
+};
+
+/**
+ * 节点清单同时服务 network-nodes 与 network-dns-records；Meristem 节点 ID 由已知加入节点反查。
+ */
+const listInventoryNodes = async (
+  client: HeadscaleClient,
+  timeoutMs?: number,
+  user?: string,
+): Promise<InventoryNode[]> => {
+  const scoped = typeof timeoutMs === 'number' ? client.withTimeout(timeoutMs) : client;
+  const resolveMeristemId = createMeristemIdResolver(
+    [...(state.nodeEvents?.joinedNodes() ?? []), ...((await state.aclGenerator?.listNodeIds()) ?? [])],
+    nodeIdentityTag,
+  );
+
+  return (await scoped.listNodes({ user })).map((node) => toInventoryNode(node, resolveMeristemId));
 };
 
-const invokeService = async (method: string, params: unknown): Promise<unknown> => {
+/**
+ * 未配置 `headscale` 段时 headscale.yaml 由运维手写，DNS 表按默认基础域名生成。
+ */
+const resolveDnsConfig = (): DnsConfig =>
+  resolveHeadscaleConfig(state.config.headscale ?? {}, {
+    apiUrl: state.config.apiUrl,
+    configPath: state.config.configPath,
+  }).dns;
+
+const AUTH_KEY_STATUSES: readonly IssuedAuthKeyStatus[] = ['unused', 'used', 'expired', 'revoked'];
+
+const invokeService = async (
+  method: string,
+  params: unknown,
+  timeoutMs?: number,
+  traceId?: string,
+  callerPluginId?: string,
+): Promise<unknown> => {
   if (method === 'network-mode-status') {
-    const running = state.started && (await state.manager?.healthCheck());
+    const healthy = state.started && Boolean(await state.manager?.healthCheck());
+    return describeNetworkMode(await refreshNetworkMode(healthy), healthy);
+  }
+
+  if (method === 'network-mode-set') {
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    const request = readModeSwitchInput(payload);
+    return switchNetworkMode(request.mode, request.drainTimeoutMs);
+  }
+
+  if (method === 'network-authkey') {
+    if (!state.manager || !state.authKeyPolicy || !state.authKeys) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const caller = requireCaller(method, callerPluginId);
+    const request = parseAuthKeyRequest(isRecord(params) ? params.payload : undefined);
+    const input = state.authKeyPolicy.authorize(caller, request);
+    const client = state.manager.getClient();
+    const scoped = typeof timeoutMs === 'number' ? client.withTimeout(timeoutMs) : client;
+    const key = await scoped.createAuthKey(input);
+    state.authKeyPolicy.consumeQuota(caller);
+    await state.authKeys.record(key, { caller, traceId });
+    return key;
+  }
+
+  if (method === 'network-authkey-list') {
+    if (!state.authKeys) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    const status = AUTH_KEY_STATUSES.find((item) => item === payload.status);
+    if (payload.status !== undefined && !status) {
+      throw new PluginError('INVALID_PARAMS', `Unknown auth key status: ${String(payload.status)}`);
+    }
+
+    const result = await state.authKeys.list({
+      user: typeof payload.user === 'string' ? payload.user : undefined,
+      status,
+    });
+    return { keys: result.keys, refresh_error: result.refreshError };
+  }
+
+  if (method === 'network-authkey-revoke') {
+    if (!state.authKeys) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    if (typeof payload.id !== 'string' || payload.id.length === 0) {
+      throw new PluginError('INVALID_PARAMS', 'network-authkey-revoke requires payload.id');
+    }
+
+    return state.authKeys.revoke(payload.id);
+  }
+
+  if (method === 'network-logs') {
+    if (!state.manager) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    const level = payload.level === undefined ? undefined : readLogLevel(payload.level);
+    if (level === null) {
+      throw new PluginError('INVALID_PARAMS', `Unknown log level: ${String(payload.level)}`);
+    }
+
     return {
-      plugin_id: state.pluginId,
-      desired_mode: running ? 'M-NET' : 'DIRECT',
-      mode: running ? 'M-NET' : 'DIRECT',
-      healthy: Boolean(running),
+      entries: state.manager.getLogs({
+        level,
+        tail: readPositiveNumber(payload.tail, DEFAULT_LOG_TAIL),
+      }),
     };
   }
 
-  if (method === 'network-authkey') {
+  if (method === 'network-join-key') {
+    if (!state.nodeEvents) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    // 加入密钥可直接让设备进入覆盖网，只交给显式授权的调用方（通常是负责节点引导的插件）。
+    const caller = requireCaller(method, callerPluginId);
+    if (!state.config.joinKeyCallers.includes(caller)) {
+      throw new PluginError('POLICY_DENIED', `Caller ${caller} is not allowed to collect join keys`);
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    const nodeId = readNodeId(payload);
+    if (!nodeId) {
+      throw new PluginError('INVALID_PARAMS', 'network-join-key requires payload.node_id');
+    }
+
+    return { node_id: nodeId, key: state.nodeEvents.takeJoinKey(nodeId) };
+  }
+
+  if (method === 'network-audit') {
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    return {
+      records: nodeAudit.query({
+        subject: typeof payload.subject === 'string' ? payload.subject : undefined,
+        tail: readPositiveNumber(payload.tail, DEFAULT_LOG_TAIL),
+      }),
+    };
+  }
+
+  if (method === 'network-acl-apply') {
+    if (!state.acl) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    return state.acl.apply(payload.policy, { dryRun: payload.dryRun === true });
+  }
+
+  if (method === 'network-acl-generate') {
+    if (!state.aclGenerator) {
+      throw new PluginError('PRECONDITION_FAILED', 'ACL generation is not configured (aclGenerator.roles)');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    return state.aclGenerator.regenerate(payload.dryRun === true);
+  }
+
+  if (method === 'network-acl-rollback') {
+    if (!state.acl) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    return state.acl.rollback();
+  }
+
+  if (method === 'network-nodes') {
     if (!state.manager) {
-      throw new Error('M-Net manager is not initialized');
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    const user = typeof payload.user === 'string' && payload.user.length > 0 ? payload.user : undefined;
+
+    return queryInventory(await listInventoryNodes(state.manager.getClient(), timeoutMs, user), {
+      onlineOnly: payload.onlineOnly === true,
+      tag: typeof payload.tag === 'string' ? payload.tag : undefined,
+      user,
+      offset: typeof payload.offset === 'number' ? payload.offset : undefined,
+      limit: typeof payload.limit === 'number' ? payload.limit : undefined,
+    });
+  }
+
+  if (method === 'network-dns-records') {
+    if (!state.manager) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    return buildDnsRecords(await listInventoryNodes(state.manager.getClient(), timeoutMs), resolveDnsConfig());
+  }
+
+  if (method === 'network-routes') {
+    if (!state.routes) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+
+    const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
+    return state.routes.list(typeof payload.node_id === 'string' ? payload.node_id : undefined);
+  }
+
+  if (method === 'network-route-approve' || method === 'network-route-disable') {
+    if (!state.routes) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
     }
 
     const payload = isRecord(params) && isRecord(params.payload) ? params.payload : {};
-    return state.manager.getClient().createAuthKey(payload);
+    if (typeof payload.route_id !== 'string' || payload.route_id.length === 0) {
+      throw new PluginError('INVALID_PARAMS', `${method} requires payload.route_id`);
+    }
+
+    if (method === 'network-route-approve') {
+      await state.routes.approve(payload.route_id);
+    } else {
+      await state.routes.disable(payload.route_id);
+    }
+    return { route_id: payload.route_id, enabled: method === 'network-route-approve' };
   }
 
   if (method === 'network-derp-map') {
     if (!state.derpManager) {
-      throw new Error('DERP manager is not initialized');
+      throw new PluginError('NOT_INITIALIZED', 'DERP manager is not initialized');
     }
 
     return state.derpManager.buildDerpMap();
   }
 
-  throw new Error(`METHOD_NOT_FOUND:${method}`);
+  throw new PluginError('METHOD_NOT_FOUND', `METHOD_NOT_FOUND:${method}`);
 };
 
-const handleInvoke = async (request: PluginInvokeRequest): Promise<PluginInvokeResponse> => {
+const handleInvoke = async (
+  request: PluginInvokeRequest,
+  traceId?: string,
+  callerPluginId?: string,
+): Promise<PluginInvokeResponse> => {
   try {
     if (request.method === 'onInit') {
       return { success: true, data: await onInit(request.params) };
@@ -288,19 +1121,72 @@ const handleInvoke = async (request: PluginInvokeRequest): Promise<PluginInvokeR
 
     return {
       success: true,
-      data: await invokeService(request.method, request.params),
+      data: await invokeService(request.method, request.params, request.timeout, traceId, callerPluginId),
     };
   } catch (error) {
     return {
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: error instanceof Error ? error.message : String(error),
-      },
+      error: toInvokeError(error),
     };
   }
 };
 
+/**
+ * 节点加入时先更新生成的 ACL，使密钥上的身份与角色标签在策略中已有所有者；失败只记审计，不阻止签发。
+ */
+const registerGeneratedNode = async (generator: AclGenerator, nodeId: string, roles: string[]): Promise<void> => {
+  try {
+    const generated = await generator.registerNode(nodeId, roles);
+    nodeAudit.record('acl.regenerated', nodeId, {
+      roles,
+      applied: generated.result.applied,
+      version: generated.result.version,
+      conflicts: generated.conflicts,
+      ruleIssues: generated.ruleIssues,
+    });
+  } catch (error) {
+    nodeAudit.record('acl.failed', nodeId, { roles, error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * 节点在 Headscale 中被移除后注销，生成的策略随之去掉其身份标签。
+ */
+const unregisterGeneratedNode = async (generator: AclGenerator, nodeId: string): Promise<void> => {
+  try {
+    const generated = await generator.unregisterNode(nodeId);
+    if (generated) {
+      nodeAudit.record('acl.regenerated', nodeId, {
+        removed: true,
+        applied: generated.result.applied,
+        version: generated.result.version,
+        ruleIssues: generated.ruleIssues,
+      });
+    }
+  } catch (error) {
+    nodeAudit.record('acl.failed', nodeId, {
+      removed: true,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Core 推送的订阅事件；未声明或缺少节点 ID 的事件直接忽略，处理结果只进入审计记录。
+ */
+const handleEvent = async (request: PluginEventRequest): Promise<void> => {
+  const nodeId = readNodeId(request.data);
+  if (!isNodeEventName(request.event) || !nodeId || !state.nodeEvents) {
+    return;
+  }
+
+  if (request.event === 'node.join' && state.aclGenerator) {
+    await registerGeneratedNode(state.aclGenerator, nodeId, readNodeRoles(request.data));
+  }
+
+  await state.nodeEvents.handle(request.event, nodeId);
+};
+
 const onMessage = (event: MessageEvent<unknown>): void => {
   const payload = event.data;
   if (!isPluginMessage(payload)) {
@@ -312,11 +1198,16 @@ const onMessage = (event: MessageEvent<unknown>): void => {
     return;
   }
 
+  if (payload.type === PluginMessageType.EVENT && isEventRequest(payload.payload)) {
+    void handleEvent(payload.payload);
+    return;
+  }
+
   if (payload.type !== PluginMessageType.INVOKE || !isInvokeRequest(payload.payload)) {
     return;
   }
 
-  void handleInvoke(payload.payload).then((result) => {
+  void handleInvoke(payload.payload, payload.traceId, readCallerPluginId(payload)).then((result) => {
     globalThis.postMessage({
       id: payload.id,
       type: PluginMessageType.INVOKE_RESULT,
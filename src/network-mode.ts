@@ -0,0 +1,242 @@
+import { readTextIfExists, writeFileIfChanged } from './atomic-file';
+
+export type NetworkMode = 'DIRECT' | 'M-NET';
+
+export type NetworkModeReason =
+  | 'desired-direct'
+  | 'plugin-stopped'
+  | 'headscale-down'
+  | 'headscale-incompatible'
+  | 'derp-map-empty'
+  | 'derp-map-unavailable';
+
+export type NetworkModeInputs = Readonly<{
+  started: boolean;
+  headscaleHealthy: boolean;
+  // null 表示尚未探测到版本（未启动、启动超时或启动期间退出），只有确认不兼容时为 false。
+  headscaleCompatible: boolean | null;
+  derpRegionCount: number | null;
+}>;
+
+export type NetworkModeSwitch = Readonly<{
+  from: NetworkMode;
+  to: NetworkMode;
+  startedAt: number;
+  deadline: number;
+}>;
+
+export type NetworkModeState = Readonly<{
+  desiredMode: NetworkMode;
+  mode: NetworkMode;
+  reason: NetworkModeReason | null;
+  reasons: NetworkModeReason[];
+  since: number;
+  pending: NetworkModeSwitch | null;
+}>;
+
+export type NetworkModeTransition = Readonly<{
+  desiredMode: NetworkMode;
+  previous: NetworkMode;
+  next: NetworkMode;
+  previousReason: NetworkModeReason | null;
+  reason: NetworkModeReason | null;
+  reasons: NetworkModeReason[];
+  timestamp: number;
+}>;
+
+export type NetworkModeSwitchOptions = Readonly<{
+  drainTimeoutMs?: number;
+}>;
+
+type NetworkModeTrackerOptions = Readonly<{
+  onTransition: (transition: NetworkModeTransition) => void;
+  desiredMode?: NetworkMode;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+// 切换到 M-NET 时必须立即满足的前置条件；插件未启动或 Headscale 暂时不健康不阻止切换，只推迟生效。
+const SWITCH_BLOCKERS: ReadonlySet<NetworkModeReason> = new Set<NetworkModeReason>([
+  'headscale-incompatible',
+  'derp-map-empty',
+  'derp-map-unavailable',
+]);
+
+export const isNetworkMode = (value: unknown): value is NetworkMode => value === 'DIRECT' || value === 'M-NET';
+
+/**
+ * 按优先级列出阻止进入 M-NET 的原因；第一个即为对外报告的主因。
+ */
+export const collectModeReasons = (
+  inputs: NetworkModeInputs,
+  desiredMode: NetworkMode = 'M-NET',
+): NetworkModeReason[] => {
+  const reasons: NetworkModeReason[] = [];
+
+  if (desiredMode === 'DIRECT') {
+    reasons.push('desired-direct');
+  }
+
+  if (!inputs.started) {
+    reasons.push('plugin-stopped');
+  }
+
+  if (inputs.headscaleCompatible === false) {
+    reasons.push('headscale-incompatible');
+  } else if (!inputs.headscaleHealthy) {
+    reasons.push('headscale-down');
+  }
+
+  if (inputs.derpRegionCount === null) {
+    reasons.push('derp-map-unavailable');
+  } else if (inputs.derpRegionCount === 0) {
+    reasons.push('derp-map-empty');
+  }
+
+  return reasons;
+};
+
+/**
+ * 返回拒绝切换到 M-NET 的前置条件失败项；为空表示允许切换。
+ */
+export const collectSwitchBlockers = (inputs: NetworkModeInputs): NetworkModeReason[] =>
+  collectModeReasons(inputs).filter((reason) => SWITCH_BLOCKERS.has(reason));
+
+/**
+ * 逻辑块：期望模式与有效模式状态机。
+ * - 期望模式由调用方显式设置；有效模式只有在期望 M-NET 且所有前置条件满足时才为 M-NET。
+ * - M-NET -> DIRECT 可带排空时间：期间有效模式保持 M-NET，让在途会话迁移；
+ *   若排空期间基础设施本身失效，则立即回落，不再等待。
+ * - 模式或主因变化都视为一次迁移并立即通知，未变化的重复评估不产生消息。
+ */
+export const createNetworkModeTracker = (options: NetworkModeTrackerOptions) => {
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+
+  let current: NetworkModeState = Object.freeze<NetworkModeState>({
+    desiredMode: options.desiredMode ?? 'M-NET',
+    mode: 'DIRECT',
+    reason: 'plugin-stopped',
+    reasons: ['plugin-stopped'],
+    since: now(),
+    pending: null,
+  });
+  let lastInputs: NetworkModeInputs | null = null;
+  let drainTimer: unknown = null;
+
+  const cancelDrain = (): void => {
+    if (drainTimer !== null) {
+      clearTimer(drainTimer);
+      drainTimer = null;
+    }
+  };
+
+  const isDraining = (reasons: NetworkModeReason[]): boolean =>
+    current.pending !== null &&
+    now() < current.pending.deadline &&
+    reasons.length === 1 &&
+    reasons[0] === 'desired-direct';
+
+  const evaluate = (inputs: NetworkModeInputs): NetworkModeState => {
+    lastInputs = inputs;
+    const reasons = collectModeReasons(inputs, current.desiredMode);
+
+    if (isDraining(reasons)) {
+      current = Object.freeze({ ...current, reasons });
+      return current;
+    }
+
+    cancelDrain();
+    const mode: NetworkMode = reasons.length === 0 ? 'M-NET' : 'DIRECT';
+    const reason = reasons[0] ?? null;
+
+    if (mode === current.mode && reason === current.reason) {
+      current = Object.freeze({ ...current, reasons, pending: null });
+      return current;
+    }
+
+    const timestamp = now();
+    const previous = current;
+    current = Object.freeze({ ...current, mode, reason, reasons, since: timestamp, pending: null });
+    options.onTransition({
+      desiredMode: current.desiredMode,
+      previous: previous.mode,
+      next: mode,
+      previousReason: previous.reason,
+      reason,
+      reasons,
+      timestamp,
+    });
+
+    return current;
+  };
+
+  /**
+   * 设置期望模式并按当前条件立即评估；是否允许切换由调用方先用 collectSwitchBlockers 判定。
+   */
+  const setDesiredMode = (
+    desiredMode: NetworkMode,
+    inputs: NetworkModeInputs,
+    switchOptions: NetworkModeSwitchOptions = {},
+  ): NetworkModeState => {
+    cancelDrain();
+    const drainTimeoutMs = switchOptions.drainTimeoutMs ?? 0;
+    const startedAt = now();
+    const pending =
+      desiredMode === 'DIRECT' && current.mode === 'M-NET' && drainTimeoutMs > 0
+        ? { from: current.mode, to: desiredMode, startedAt, deadline: startedAt + drainTimeoutMs }
+        : null;
+
+    current = Object.freeze({ ...current, desiredMode, pending });
+    if (pending) {
+      drainTimer = setTimer(() => {
+        drainTimer = null;
+        current = Object.freeze({ ...current, pending: null });
+        if (lastInputs) {
+          evaluate(lastInputs);
+        }
+      }, drainTimeoutMs);
+    }
+
+    return evaluate(inputs);
+  };
+
+  /**
+   * 启动时恢复持久化的期望模式，不触发评估与迁移通知。
+   */
+  const restoreDesiredMode = (desiredMode: NetworkMode): void => {
+    current = Object.freeze({ ...current, desiredMode });
+  };
+
+  return Object.freeze({
+    evaluate,
+    setDesiredMode,
+    restoreDesiredMode,
+    dispose: cancelDrain,
+    getState: (): NetworkModeState => current,
+  });
+};
+
+export type NetworkModeTracker = ReturnType<typeof createNetworkModeTracker>;
+
+/**
+ * 读取持久化的期望模式；文件缺失或内容无法识别时返回 null，由调用方使用默认值。
+ */
+export const readDesiredMode = async (path: string): Promise<NetworkMode | null> => {
+  const content = await readTextIfExists(path);
+  if (content === null) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { desired_mode?: unknown };
+    return isNetworkMode(parsed.desired_mode) ? parsed.desired_mode : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeDesiredMode = async (path: string, desiredMode: NetworkMode): Promise<boolean> =>
+  writeFileIfChanged(path, `${JSON.stringify({ desired_mode: desiredMode }, null, 2)}\n`);
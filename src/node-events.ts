@@ -0,0 +1,249 @@
+import { createHash } from 'node:crypto';
+import type { AuditLog } from './audit-log';
+import type { HeadscaleClient } from './headscale-client';
+import type { HeadscalePreAuthKey } from './headscale-types';
+
+export type NodeEventName = 'node.join' | 'node.offline';
+
+export type NodeAuditAction =
+  | 'authkey.issued'
+  | 'authkey.failed'
+  | 'authkey.expired'
+  | 'authkey.unrecorded'
+  | 'authkey.sweep_failed'
+  | 'expire.scheduled'
+  | 'expire.cancelled'
+  | 'node.expired'
+  | 'expire.skipped'
+  | 'expire.failed'
+  | 'acl.regenerated'
+  | 'acl.failed'
+  | 'route.approved'
+  | 'route.conflict';
+
+export type NodeEventHandlerOptions = Readonly<{
+  getClient: () => HeadscaleClient | null;
+  audit: AuditLog<NodeAuditAction>;
+  user: string;
+  joinKeyTtlMs: number;
+  offlineGraceMs: number;
+  onKeyIssued?: (nodeId: string, key: HeadscalePreAuthKey) => void;
+  // 节点已在 Headscale 中过期或已不存在；用于清理该节点生成的 ACL 条目。
+  onNodeRemoved?: (nodeId: string) => void;
+  resolveTags?: (nodeId: string) => string[];
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+export const isNodeEventName = (value: unknown): value is NodeEventName =>
+  value === 'node.join' || value === 'node.offline';
+
+/**
+ * 从事件数据中读取 Meristem 节点 ID，兼容 snake_case 与 camelCase。
+ */
+export const readNodeId = (data: unknown): string | null => {
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const raw = data as Record<string, unknown>;
+  const nodeId = raw.node_id ?? raw.nodeId;
+  return typeof nodeId === 'string' && nodeId.length > 0 ? nodeId : null;
+};
+
+// 可原样放入标签的节点 ID：小写字母数字，以单个 `-` 分隔，因此不会出现 `--`。
+const CANONICAL_NODE_ID = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * 逻辑块：Meristem 节点在 Headscale 中的身份标签。
+ * - Headscale 标签只允许小写字母、数字与 `-`；符合该形式的节点 ID 原样使用，标签可直接还原为节点 ID。
+ * - 其余节点 ID 规整化后追加 `--<sha256 前 16 位>`：规整化形式只为可读，`--` 只出现在这类标签中，
+ *   `node_1`、`Node.1` 等不同 ID 不会映射到同一标签，也不会与原样使用的 ID 冲突。
+ */
+export const nodeIdentityTag = (nodeId: string): string => {
+  if (CANONICAL_NODE_ID.test(nodeId)) {
+    return `tag:meristem-${nodeId}`;
+  }
+
+  const readable = nodeId
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const digest = createHash('sha256').update(nodeId).digest('hex').slice(0, 16);
+  return `tag:meristem-${readable || 'node'}--${digest}`;
+};
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * 逻辑块：节点生命周期事件处理。
+ * - node.join：为节点签发一次性、临时、带身份标签的预授权密钥，暂存到节点取走为止。
+ * - node.offline：宽限期后将带该节点身份标签的 Headscale 节点置为过期；宽限期内重新加入则取消。
+ * - 尚未取走的加入密钥被替换或因离线作废时，同时在 Headscale 中置为过期，不留下仍可使用的密钥。
+ * - 所有动作（含失败）都写入审计记录，密钥本身不进入审计。
+ */
+export const createNodeEventHandler = (options: NodeEventHandlerOptions) => {
+  const now = options.now ?? (() => Date.now());
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+  const joinKeys = new Map<string, HeadscalePreAuthKey>();
+  const expiryTimers = new Map<string, unknown>();
+  const joinedNodes = new Set<string>();
+
+  const cancelExpiry = (nodeId: string): boolean => {
+    const timer = expiryTimers.get(nodeId);
+    if (timer === undefined) {
+      return false;
+    }
+
+    clearTimer(timer);
+    expiryTimers.delete(nodeId);
+    return true;
+  };
+
+  const discardJoinKey = async (
+    nodeId: string,
+    client: HeadscaleClient | null,
+    reason: NodeEventName,
+  ): Promise<void> => {
+    const key = joinKeys.get(nodeId);
+    joinKeys.delete(nodeId);
+    if (!key || (key.expiration && Date.parse(key.expiration) <= now())) {
+      return;
+    }
+
+    if (!client) {
+      options.audit.record('authkey.failed', nodeId, {
+        keyId: key.id,
+        reason,
+        error: 'M-Net manager is not initialized',
+      });
+      return;
+    }
+
+    try {
+      await client.expireAuthKey({ user: key.user, key: key.key });
+      options.audit.record('authkey.expired', nodeId, { keyId: key.id, reason });
+    } catch (error) {
+      options.audit.record('authkey.failed', nodeId, { keyId: key.id, reason, error: describeError(error) });
+    }
+  };
+
+  const handleJoin = async (nodeId: string): Promise<void> => {
+    joinedNodes.add(nodeId);
+    if (cancelExpiry(nodeId)) {
+      options.audit.record('expire.cancelled', nodeId, { reason: 'node.join' });
+    }
+
+    const tag = nodeIdentityTag(nodeId);
+    const client = options.getClient();
+    await discardJoinKey(nodeId, client, 'node.join');
+    if (!client) {
+      options.audit.record('authkey.failed', nodeId, { error: 'M-Net manager is not initialized' });
+      return;
+    }
+
+    try {
+      const key = await client.createAuthKey({
+        user: options.user,
+        reusable: false,
+        ephemeral: true,
+        expiration: new Date(now() + options.joinKeyTtlMs).toISOString(),
+        aclTags: [...new Set([tag, ...(options.resolveTags?.(nodeId) ?? [])])],
+      });
+      joinKeys.set(nodeId, key);
+      options.onKeyIssued?.(nodeId, key);
+      options.audit.record('authkey.issued', nodeId, {
+        keyId: key.id,
+        user: key.user,
+        aclTags: key.aclTags,
+        expiration: key.expiration,
+      });
+    } catch (error) {
+      options.audit.record('authkey.failed', nodeId, { error: describeError(error) });
+    }
+  };
+
+  const expireNode = async (nodeId: string): Promise<void> => {
+    const tag = nodeIdentityTag(nodeId);
+    const client = options.getClient();
+    if (!client) {
+      options.audit.record('expire.failed', nodeId, { error: 'M-Net manager is not initialized' });
+      return;
+    }
+
+    try {
+      const nodes = await client.listNodes();
+      const matched = nodes.filter((node) => node.forcedTags.includes(tag) || node.validTags.includes(tag));
+      if (matched.length === 0) {
+        options.audit.record('expire.skipped', nodeId, { reason: 'no headscale node carries the identity tag', tag });
+        options.onNodeRemoved?.(nodeId);
+        return;
+      }
+
+      for (const node of matched) {
+        await client.expireNode(node.id);
+        options.audit.record('node.expired', nodeId, { headscaleNodeId: node.id, name: node.givenName || node.name });
+      }
+      options.onNodeRemoved?.(nodeId);
+    } catch (error) {
+      options.audit.record('expire.failed', nodeId, { error: describeError(error) });
+    }
+  };
+
+  const handleOffline = async (nodeId: string): Promise<void> => {
+    cancelExpiry(nodeId);
+    expiryTimers.set(
+      nodeId,
+      setTimer(() => {
+        expiryTimers.delete(nodeId);
+        void expireNode(nodeId);
+      }, options.offlineGraceMs),
+    );
+    options.audit.record('expire.scheduled', nodeId, {
+      graceMs: options.offlineGraceMs,
+      deadline: now() + options.offlineGraceMs,
+    });
+    await discardJoinKey(nodeId, options.getClient(), 'node.offline');
+  };
+
+  const handle = async (event: NodeEventName, nodeId: string): Promise<void> => {
+    if (event === 'node.join') {
+      await handleJoin(nodeId);
+      return;
+    }
+
+    await handleOffline(nodeId);
+  };
+
+  /**
+   * 取走节点的加入密钥，只能取一次；已过期的密钥不再返回。
+   */
+  const takeJoinKey = (nodeId: string): HeadscalePreAuthKey | null => {
+    const key = joinKeys.get(nodeId) ?? null;
+    joinKeys.delete(nodeId);
+    if (key?.expiration && Date.parse(key.expiration) <= now()) {
+      return null;
+    }
+
+    return key;
+  };
+
+  const dispose = (): void => {
+    for (const timer of expiryTimers.values()) {
+      clearTimer(timer);
+    }
+    expiryTimers.clear();
+  };
+
+  return Object.freeze({
+    handle,
+    takeJoinKey,
+    dispose,
+    pendingExpiries: (): string[] => [...expiryTimers.keys()],
+    joinedNodes: (): string[] => [...joinedNodes],
+  });
+};
+
+export type NodeEventHandler = ReturnType<typeof createNodeEventHandler>;
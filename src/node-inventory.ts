@@ -0,0 +1,109 @@
+import type { HeadscaleNode } from './headscale-types';
+
+export type InventoryNode = Readonly<{
+  id: string;
+  hostname: string;
+  givenName: string;
+  user: string | null;
+  tags: string[];
+  ipv4: string | null;
+  ipv6: string | null;
+  online: boolean;
+  lastSeen: string | null;
+  expiry: string | null;
+  meristemNodeId: string | null;
+}>;
+
+export type InventoryQuery = Readonly<{
+  onlineOnly?: boolean;
+  tag?: string;
+  user?: string;
+  offset?: number;
+  limit?: number;
+}>;
+
+export type InventoryPage = Readonly<{
+  nodes: InventoryNode[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset: number | null;
+}>;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1_000;
+const IDENTITY_TAG_PREFIX = 'tag:meristem-';
+
+const nonNegativeInt = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+/**
+ * 逻辑块：由身份标签反查 Meristem 节点 ID。
+ * - 优先匹配已知节点 ID 的标签；匹配不到时，原样使用节点 ID 的标签退回标签后缀。
+ * - 带 `--` 哈希后缀的标签无法还原，未知时返回 null。
+ */
+export const createMeristemIdResolver = (
+  knownNodeIds: Iterable<string>,
+  identityTag: (nodeId: string) => string,
+): ((tags: readonly string[]) => string | null) => {
+  const byTag = new Map<string, string>();
+  for (const nodeId of knownNodeIds) {
+    byTag.set(identityTag(nodeId), nodeId);
+  }
+
+  return (tags) => {
+    const tag = tags.find((item) => item.startsWith(IDENTITY_TAG_PREFIX));
+    if (!tag) {
+      return null;
+    }
+
+    const suffix = tag.slice(IDENTITY_TAG_PREFIX.length);
+    return byTag.get(tag) ?? (suffix.includes('--') ? null : suffix);
+  };
+};
+
+export const toInventoryNode = (
+  node: HeadscaleNode,
+  resolveMeristemId: (tags: readonly string[]) => string | null,
+): InventoryNode => {
+  const tags = [...new Set([...node.forcedTags, ...node.validTags])].sort();
+
+  return {
+    id: node.id,
+    hostname: node.name,
+    givenName: node.givenName,
+    user: node.user?.name ?? null,
+    tags,
+    ipv4: node.ipAddresses.find((address) => !address.includes(':')) ?? null,
+    ipv6: node.ipAddresses.find((address) => address.includes(':')) ?? null,
+    online: node.online,
+    lastSeen: node.lastSeen,
+    expiry: node.expiry,
+    meristemNodeId: resolveMeristemId(tags),
+  };
+};
+
+/**
+ * 按过滤条件与分页返回清单；排序按 Headscale 节点 ID 数值升序，保证翻页稳定。
+ */
+export const queryInventory = (nodes: readonly InventoryNode[], query: InventoryQuery = {}): InventoryPage => {
+  const offset = nonNegativeInt(query.offset, 0);
+  const limit = Math.min(Math.max(nonNegativeInt(query.limit, DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const matched = nodes
+    .filter(
+      (node) =>
+        (!query.onlineOnly || node.online) &&
+        (!query.tag || node.tags.includes(query.tag)) &&
+        (!query.user || node.user === query.user),
+    )
+    .sort((a, b) => Number(a.id) - Number(b.id) || a.id.localeCompare(b.id));
+
+  const page = matched.slice(offset, offset + limit);
+  return {
+    nodes: page,
+    total: matched.length,
+    offset,
+    limit,
+    nextOffset: offset + page.length < matched.length ? offset + page.length : null,
+  };
+};
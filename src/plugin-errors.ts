@@ -0,0 +1,42 @@
+import { HeadscaleError, type HeadscaleErrorCode } from './headscale-errors';
+import { HeadscaleStartupError } from './headscale-manager';
+
+export type PluginErrorCode =
+  | 'INTERNAL_ERROR'
+  | 'METHOD_NOT_FOUND'
+  | 'INVALID_PARAMS'
+  | 'NOT_INITIALIZED'
+  | 'NOT_FOUND'
+  | 'PRECONDITION_FAILED'
+  | 'POLICY_DENIED'
+  | 'CALLER_IDENTITY_MISSING'
+  | HeadscaleErrorCode
+  | HeadscaleStartupError['code'];
+
+export class PluginError extends Error {
+  readonly code: PluginErrorCode;
+
+  constructor(code: PluginErrorCode, message: string) {
+    super(message);
+    this.name = 'PluginError';
+    this.code = code;
+  }
+}
+
+/**
+ * 逻辑块：把任意异常折叠为 INVOKE_RESULT 的错误结构。
+ * - 插件自身错误与 Headscale 错误保留各自错误码，其余异常统一降级为 INTERNAL_ERROR。
+ */
+export const toInvokeError = (error: unknown): { code: PluginErrorCode; message: string } => {
+  if (error instanceof PluginError || error instanceof HeadscaleError || error instanceof HeadscaleStartupError) {
+    return {
+      code: error.code,
+      message: error.message,
+    };
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
@@ -0,0 +1,366 @@
+import type { HeadscaleClient } from './headscale-client';
+import type { HeadscaleRoute } from './headscale-types';
+import { PluginError } from './plugin-errors';
+
+export type Cidr = Readonly<{
+  family: 4 | 6;
+  network: bigint;
+  bits: number;
+}>;
+
+export type RouteApprovalRule = Readonly<{
+  cidrs: string[];
+  tags: string[];
+  allowExit: boolean;
+}>;
+
+export type RouteConflict = Readonly<{
+  prefixes: [string, string];
+  routeIds: [string, string];
+  nodeIds: [string, string];
+  // 完全相同的前缀是 Headscale 支持的主备子网路由，仍报告但与真正的重叠区分开。
+  identical: boolean;
+}>;
+
+export type NodeRoutes = Readonly<{
+  nodeId: string;
+  nodeName: string | null;
+  advertised: string[];
+  enabled: string[];
+  routes: HeadscaleRoute[];
+}>;
+
+export type RouteListing = Readonly<{
+  nodes: NodeRoutes[];
+  conflicts: RouteConflict[];
+}>;
+
+export type RouteSyncStatus = Readonly<{
+  lastRunAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}>;
+
+export type AutoApproveResult = Readonly<{
+  approved: string[];
+  skipped: Readonly<{ routeId: string; prefix: string; reason: string }>[];
+}>;
+
+type RouteManagerOptions = Readonly<{
+  getClient: () => HeadscaleClient | null;
+  rules: readonly RouteApprovalRule[];
+  intervalMs: number;
+  onApproved?: (route: HeadscaleRoute, rule: RouteApprovalRule) => void;
+  onConflict?: (conflict: RouteConflict) => void;
+  now?: () => number;
+  setTimer?: (handler: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+}>;
+
+const EXIT_PREFIXES = new Set(['0.0.0.0/0', '::/0']);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+const parseIpv4 = (address: string): bigint | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+
+  return parts.reduce((value, part) => (value << 8n) | BigInt(Number(part)), 0n);
+};
+
+const parseIpv6 = (address: string): bigint | null => {
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group))) {
+    return null;
+  }
+
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+};
+
+/**
+ * 解析 CIDR 并把网络地址规整到前缀边界；无法解析时返回 null。
+ * 省略 `/` 视为主机地址；一旦写了 `/`，前缀长度必须是非空的纯数字（`10.0.0.0/` 不能当作 /0）。
+ */
+export const parseCidr = (prefix: string): Cidr | null => {
+  const [address, rawBits, ...rest] = prefix.split('/');
+  const family = address.includes(':') ? 6 : 4;
+  const width = family === 4 ? 32 : 128;
+  const value = family === 4 ? parseIpv4(address) : parseIpv6(address);
+  if (rest.length > 0 || (rawBits !== undefined && !/^\d{1,3}$/.test(rawBits))) {
+    return null;
+  }
+
+  const bits = rawBits === undefined ? width : Number(rawBits);
+  if (value === null || bits > width) {
+    return null;
+  }
+
+  const shift = BigInt(width - bits);
+  return { family, network: (value >> shift) << shift, bits };
+};
+
+export const cidrContains = (outer: Cidr, inner: Cidr): boolean => {
+  if (outer.family !== inner.family || outer.bits > inner.bits) {
+    return false;
+  }
+
+  const shift = BigInt((outer.family === 4 ? 32 : 128) - outer.bits);
+  return inner.network >> shift === outer.network >> shift;
+};
+
+export const cidrOverlaps = (a: Cidr, b: Cidr): boolean => cidrContains(a, b) || cidrContains(b, a);
+
+export const isExitRoute = (prefix: string): boolean => EXIT_PREFIXES.has(prefix);
+
+/**
+ * 读取插件配置中的 `routeAutoApprove` 规则列表；无法解析的 CIDR 会被丢弃。
+ */
+export const readRouteApprovalRules = (value: unknown): RouteApprovalRule[] =>
+  Array.isArray(value)
+    ? value.filter(isRecord).map((rule) => ({
+        cidrs: readStrings(rule.cidrs).filter((cidr) => parseCidr(cidr) !== null),
+        tags: readStrings(rule.tags),
+        allowExit: rule.allowExit === true,
+      }))
+    : [];
+
+const routeNodeId = (route: HeadscaleRoute): string => route.node?.id ?? '';
+
+const conflictKey = (conflict: RouteConflict): string =>
+  [conflict.routeIds.join(','), conflict.prefixes.join(','), conflict.nodeIds.join(',')].join('|');
+
+const routeNodeTags = (route: HeadscaleRoute): string[] =>
+  route.node ? [...route.node.forcedTags, ...route.node.validTags] : [];
+
+/**
+ * 不同节点通告的子网前缀两两比较，出口路由（0.0.0.0/0、::/0）本就允许多节点通告，不参与冲突检测。
+ */
+export const findRouteConflicts = (routes: readonly HeadscaleRoute[]): RouteConflict[] => {
+  const candidates = routes
+    .filter((route) => route.advertised && !isExitRoute(route.prefix))
+    .map((route) => ({ route, cidr: parseCidr(route.prefix) }))
+    .filter((item): item is { route: HeadscaleRoute; cidr: Cidr } => item.cidr !== null);
+
+  const conflicts: RouteConflict[] = [];
+  for (let i = 0; i < candidates.length; i += 1) {
+    for (let j = i + 1; j < candidates.length; j += 1) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (routeNodeId(a.route) === routeNodeId(b.route) || !cidrOverlaps(a.cidr, b.cidr)) {
+        continue;
+      }
+
+      conflicts.push({
+        prefixes: [a.route.prefix, b.route.prefix],
+        routeIds: [a.route.id, b.route.id],
+        nodeIds: [routeNodeId(a.route), routeNodeId(b.route)],
+        identical: a.cidr.bits === b.cidr.bits,
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+export const groupRoutesByNode = (routes: readonly HeadscaleRoute[]): NodeRoutes[] => {
+  const grouped = new Map<string, HeadscaleRoute[]>();
+  for (const route of routes) {
+    grouped.set(routeNodeId(route), [...(grouped.get(routeNodeId(route)) ?? []), route]);
+  }
+
+  return [...grouped].map(([nodeId, nodeRoutes]) => ({
+    nodeId,
+    nodeName: nodeRoutes[0]?.node?.givenName ?? nodeRoutes[0]?.node?.name ?? null,
+    advertised: nodeRoutes.filter((route) => route.advertised).map((route) => route.prefix),
+    enabled: nodeRoutes.filter((route) => route.enabled).map((route) => route.prefix),
+    routes: nodeRoutes,
+  }));
+};
+
+/**
+ * 找到允许自动批准该路由的第一条规则：节点需带有规则中的任一标签（规则未配置标签则不限），
+ * 子网需落在规则 CIDR 内；出口路由还要求规则显式 allowExit。
+ */
+export const matchApprovalRule = (
+  route: HeadscaleRoute,
+  rules: readonly RouteApprovalRule[],
+): RouteApprovalRule | null => {
+  const cidr = parseCidr(route.prefix);
+  const tags = routeNodeTags(route);
+  if (!cidr) {
+    return null;
+  }
+
+  return (
+    rules.find((rule) => {
+      if (rule.tags.length > 0 && !rule.tags.some((tag) => tags.includes(tag))) {
+        return false;
+      }
+
+      if (isExitRoute(route.prefix)) {
+        return rule.allowExit;
+      }
+
+      return rule.cidrs.some((outer) => {
+        const parsed = parseCidr(outer);
+        return parsed !== null && cidrContains(parsed, cidr);
+      });
+    }) ?? null
+  );
+};
+
+/**
+ * 逻辑块：子网路由与出口节点管理。
+ * - 列表按节点聚合通告/已启用前缀，并附带跨节点的前缀重叠冲突。
+ * - 自动批准周期运行：只处理已通告未启用的路由；与其他节点存在非相同前缀重叠的路由不自动批准，留给人工处理。
+ * - 同一冲突只在首次出现或内容变化时通知一次，冲突消失后再次出现会重新通知，避免周期任务刷满审计记录。
+ * - 周期运行的失败记录在 getStatus() 中，下一次成功后清除。
+ */
+export const createRouteManager = (options: RouteManagerOptions) => {
+  const setTimer = options.setTimer ?? ((handler: () => void, ms: number) => setTimeout(handler, ms));
+  const clearTimer = options.clearTimer ?? ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+  const now = options.now ?? (() => Date.now());
+  const reportedConflicts = new Set<string>();
+  let status: RouteSyncStatus = { lastRunAt: null, lastError: null, lastErrorAt: null };
+  let timer: unknown = null;
+  let active = false;
+
+  const requireClient = (): HeadscaleClient => {
+    const client = options.getClient();
+    if (!client) {
+      throw new PluginError('NOT_INITIALIZED', 'M-Net manager is not initialized');
+    }
+    return client;
+  };
+
+  const list = async (nodeId?: string): Promise<RouteListing> => {
+    const client = requireClient();
+    const routes = await client.listRoutes();
+    const conflicts = findRouteConflicts(routes);
+    const scoped = nodeId ? routes.filter((route) => routeNodeId(route) === nodeId) : routes;
+
+    return {
+      nodes: groupRoutesByNode(scoped),
+      conflicts: nodeId ? conflicts.filter((conflict) => conflict.nodeIds.includes(nodeId)) : conflicts,
+    };
+  };
+
+  const approve = async (routeId: string): Promise<void> => {
+    await requireClient().enableRoute(routeId);
+  };
+
+  const disable = async (routeId: string): Promise<void> => {
+    await requireClient().disableRoute(routeId);
+  };
+
+  const autoApprove = async (): Promise<AutoApproveResult> => {
+    const client = requireClient();
+    const routes = await client.listRoutes();
+    const conflicts = findRouteConflicts(routes);
+    const current = new Set(conflicts.map(conflictKey));
+    for (const key of reportedConflicts) {
+      if (!current.has(key)) {
+        reportedConflicts.delete(key);
+      }
+    }
+    const approved: string[] = [];
+    const skipped: Array<{ routeId: string; prefix: string; reason: string }> = [];
+
+    for (const route of routes) {
+      if (!route.advertised || route.enabled) {
+        continue;
+      }
+
+      const rule = matchApprovalRule(route, options.rules);
+      if (!rule) {
+        continue;
+      }
+
+      const conflict = conflicts.find((item) => !item.identical && item.routeIds.includes(route.id));
+      if (conflict) {
+        skipped.push({ routeId: route.id, prefix: route.prefix, reason: `overlaps ${conflict.prefixes.join(' / ')}` });
+        if (!reportedConflicts.has(conflictKey(conflict))) {
+          reportedConflicts.add(conflictKey(conflict));
+          options.onConflict?.(conflict);
+        }
+        continue;
+      }
+
+      await client.enableRoute(route.id);
+      approved.push(route.id);
+      options.onApproved?.(route, rule);
+    }
+
+    return { approved, skipped };
+  };
+
+  const schedule = (): void => {
+    timer = setTimer(() => {
+      timer = null;
+      void autoApprove()
+        .then(() => {
+          status = { lastRunAt: now(), lastError: null, lastErrorAt: null };
+        })
+        .catch((error: unknown) => {
+          const at = now();
+          status = {
+            lastRunAt: at,
+            lastError: error instanceof Error ? error.message : String(error),
+            lastErrorAt: at,
+          };
+        })
+        .finally(() => {
+          if (active) {
+            schedule();
+          }
+        });
+    }, options.intervalMs);
+  };
+
+  const start = (): void => {
+    if (active || options.rules.length === 0) {
+      return;
+    }
+
+    active = true;
+    schedule();
+  };
+
+  const stop = (): void => {
+    active = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+  };
+
+  return Object.freeze({
+    list,
+    approve,
+    disable,
+    autoApprove,
+    start,
+    stop,
+    getStatus: (): RouteSyncStatus => status,
+  });
+};
+
+export type RouteManager = ReturnType<typeof createRouteManager>;